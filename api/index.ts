@@ -1,29 +1,71 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
+import express from 'express';
+import { createRoomsRouter } from '../server/rooms-api';
+import { createClientKeysRouter } from '../server/client-keys';
+import { createSignalingBackend } from '../server/signaling-backend';
 
-// Simple in-memory storage for rooms (this will reset on each function invocation)
-const rooms = new Map<string, any>();
+// Rooms made here must be seen by the signaling servers, which run
+// elsewhere, so they are kept in the Redis at REDIS_URL; without it every
+// room request is answered with 503 rather than kept in this instance's
+// memory, where no one else could find it. A failed or lost connection is
+// also answered with 503, and the next request connects anew.
+// Vercel parses JSON bodies itself, so no body parser here.
+let app: Promise<express.Express> | null = null;
 
-export default function handler(req: VercelRequest, res: VercelResponse) {
+function connect(): Promise<express.Express> {
+  const connecting = createSignalingBackend(process.env, () => {
+    // Gave up reconnecting; start over with the next request
+    if (app === connecting) app = null;
+  }).then(({ store }) => {
+    const rooms = express();
+    rooms.use('/api/client-keys', createClientKeysRouter(store));
+    rooms.use('/api/rooms', createRoomsRouter(store));
+    return rooms;
+  });
+  connecting.catch(error => {
+    console.error('[API] Could not connect to Redis:', (error as Error).message);
+    if (app === connecting) app = null;
+  });
+  return connecting;
+}
+export default async function handler(req: VercelRequest, res: VercelResponse) {
   const { method, url } = req;
 
   // Enable CORS
   res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
 
   if (method === 'OPTIONS') {
     return res.status(200).end();
   }
 
   if (url === '/api/health') {
-    return res.status(200).json({ 
-      status: 'ok', 
-      timestamp: new Date().toISOString() 
+    return res.status(200).json({
+      status: 'ok',
+      timestamp: new Date().toISOString()
     });
   }
 
+  if (url?.startsWith('/api/rooms') || url?.startsWith('/api/client-keys')) {
+    if (!process.env.REDIS_URL) {
+      return res.status(503).json({
+        error: 'Rooms are not available',
+        message: 'REDIS_URL is not set. Rooms have to be kept in the Redis the signaling servers use, or they could not find them.'
+      });
+    }
+    app ??= connect();
+    let rooms: express.Express;
+    try {
+      rooms = await app;
+    } catch {
+      return res.status(503).json({ error: 'Rooms are not available', message: 'Could not reach Redis; try again later' });
+    }
+    return rooms(req, res);
+  }
+
   // For now, return an error message explaining WebSocket limitation
-  if (url?.includes('/ws') || method === 'POST') {
+  if (url?.includes('/ws')) {
     return res.status(501).json({
       error: 'WebSocket functionality not available in Vercel serverless environment',
       message: 'This feature requires a persistent WebSocket server. Consider using a different deployment platform for full functionality.',
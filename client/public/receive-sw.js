@@ -0,0 +1,95 @@
+// Service worker that turns chunks posted from the page into a streamed
+// browser download, so large received files never have to fit in memory.
+// The page registers a download over a MessagePort, gets back a URL, and
+// navigates a hidden frame to it; this worker answers that request with a
+// ReadableStream fed by the port. Each chunk is acknowledged once the stream
+// has room for more, and the page sends nothing new until then.
+
+// Bytes the stream buffers before the browser has to catch up
+const STREAM_HIGH_WATER_MARK = 8 * 1024 * 1024;
+
+const downloads = new Map();
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data;
+  if (!message || message.type !== 'register-download') return;
+
+  const port = event.ports[0];
+  const url = new URL(`receive-download/${encodeURIComponent(message.id)}`, self.registration.scope).href;
+
+  // Set when the stream was full as a chunk arrived; pull() sends the ack
+  let ackPending = false;
+  // The browser gave up on the download; the stream takes nothing more
+  let cancelled = false;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      port.onmessage = ({ data }) => {
+        if (cancelled) return;
+        switch (data.type) {
+          case 'chunk':
+            controller.enqueue(new Uint8Array(data.chunk));
+            if (controller.desiredSize > 0) {
+              port.postMessage({ type: 'ack' });
+            } else {
+              ackPending = true;
+            }
+            break;
+          case 'close':
+            controller.close();
+            break;
+          case 'abort':
+            controller.error(new Error('Transfer aborted'));
+            break;
+        }
+      };
+    },
+    pull() {
+      if (ackPending) {
+        ackPending = false;
+        port.postMessage({ type: 'ack' });
+      }
+    },
+    cancel() {
+      cancelled = true;
+      port.postMessage({ type: 'cancelled' });
+    }
+  }, new ByteLengthQueuingStrategy({ highWaterMark: STREAM_HIGH_WATER_MARK }));
+
+  downloads.set(url, {
+    stream,
+    name: message.name,
+    mimeType: message.mimeType || 'application/octet-stream',
+    size: message.size
+  });
+
+  port.postMessage({ type: 'ready', url });
+});
+
+self.addEventListener('fetch', (event) => {
+  const download = downloads.get(event.request.url);
+  if (!download) return;
+
+  // Each URL serves exactly one download
+  downloads.delete(event.request.url);
+
+  const headers = new Headers({
+    'Content-Type': download.mimeType,
+    'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(download.name)}`,
+    'Content-Security-Policy': "default-src 'none'",
+    'X-Content-Type-Options': 'nosniff'
+  });
+  if (typeof download.size === 'number') {
+    headers.set('Content-Length', String(download.size));
+  }
+
+  event.respondWith(new Response(download.stream, { headers }));
+});
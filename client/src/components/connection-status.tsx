@@ -1,12 +1,29 @@
 import { Badge } from '@/components/ui/badge';
-import { Signal, CheckCircle2, XCircle, UserMinus, Loader2 } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Signal, CheckCircle2, XCircle, UserMinus, Loader2, RefreshCw, Lock, Hand, DoorClosed, SearchX, Users, Ban } from 'lucide-react';
 import type { ConnectionState } from '@shared/schema';
 
 interface ConnectionStatusProps {
   state: ConnectionState;
+  encrypted?: boolean; // messages are sealed with the share link's key
+  // Each peer's verification code is shown in the peer list
+  requireVerification?: boolean;
+  onRequireVerificationChange?: (required: boolean) => void;
+  locked?: boolean; // the room turns new joins away
+  // Only for the room owner
+  onLockedChange?: (locked: boolean) => void;
 }
 
-export function ConnectionStatus({ state }: ConnectionStatusProps) {
+export function ConnectionStatus({
+  state,
+  encrypted,
+  requireVerification,
+  onRequireVerificationChange,
+  locked,
+  onLockedChange
+}: ConnectionStatusProps) {
   const getStatusConfig = () => {
     switch (state) {
       case 'connected':
@@ -16,6 +33,13 @@ export function ConnectionStatus({ state }: ConnectionStatusProps) {
           variant: 'default' as const,
           className: 'bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20'
         };
+      case 'knocking':
+        return {
+          icon: Hand,
+          label: 'Waiting for approval...',
+          variant: 'secondary' as const,
+          className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20'
+        };
       case 'connecting':
         return {
           icon: Loader2,
@@ -23,13 +47,41 @@ export function ConnectionStatus({ state }: ConnectionStatusProps) {
           variant: 'secondary' as const,
           className: 'bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20 animate-pulse'
         };
+      case 'reconnecting':
+        return {
+          icon: RefreshCw,
+          label: 'Reconnecting...',
+          variant: 'secondary' as const,
+          className: 'bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20'
+        };
       case 'peer-left':
         return {
           icon: UserMinus,
-          label: 'Peer Left',
+          label: 'Everyone Left',
           variant: 'secondary' as const,
           className: 'bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20'
         };
+      case 'room-unavailable':
+        return {
+          icon: SearchX,
+          label: 'Room Not Available',
+          variant: 'destructive' as const,
+          className: ''
+        };
+      case 'room-full':
+        return {
+          icon: Users,
+          label: 'Room Full',
+          variant: 'destructive' as const,
+          className: ''
+        };
+      case 'turned-away':
+        return {
+          icon: Ban,
+          label: 'Not Let In',
+          variant: 'destructive' as const,
+          className: ''
+        };
       case 'error':
         return {
           icon: XCircle,
@@ -52,18 +104,58 @@ export function ConnectionStatus({ state }: ConnectionStatusProps) {
   const Icon = config.icon;
 
   return (
-    <div className="flex items-center justify-between p-4 border rounded-lg bg-card" data-testid="status-connection">
-      <div className="flex items-center gap-3">
+    <div className="p-4 border rounded-lg bg-card space-y-4" data-testid="status-connection">
+      <div className="flex flex-wrap items-center gap-3">
         <span className="text-sm font-medium text-card-foreground">Connection Status</span>
         <Badge 
           variant={config.variant}
           className={`gap-1.5 ${config.className}`}
           data-testid={`badge-status-${state}`}
         >
-          <Icon className={`h-3.5 w-3.5 ${state === 'connecting' ? 'animate-spin' : ''}`} />
+          <Icon className={`h-3.5 w-3.5 ${state === 'connecting' || state === 'reconnecting' ? 'animate-spin' : ''}`} />
           {config.label}
         </Badge>
+        {encrypted && (
+          <Badge variant="outline" className="gap-1.5" data-testid="badge-encrypted">
+            <Lock className="h-3.5 w-3.5" />
+            End-to-end encrypted
+          </Badge>
+        )}
+        {locked && (
+          <Badge variant="outline" className="gap-1.5" data-testid="badge-room-locked">
+            <DoorClosed className="h-3.5 w-3.5" />
+            Room locked
+          </Badge>
+        )}
+        {onLockedChange && (
+          <div className="flex items-center gap-2 ml-auto">
+            <Switch
+              id="room-locked"
+              checked={!!locked}
+              onCheckedChange={onLockedChange}
+              data-testid="switch-room-locked"
+            />
+            <Label htmlFor="room-locked">Lock room</Label>
+          </div>
+        )}
       </div>
+
+      {state === 'connected' && (
+        <div className="space-y-3 border-t pt-4" data-testid="panel-verification">
+          <p className="text-sm text-muted-foreground">
+            Check that each peer sees the same code as you. If it differs, someone may be intercepting that connection.
+          </p>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="require-verification"
+              checked={requireVerification}
+              onCheckedChange={(checked) => onRequireVerificationChange?.(checked === true)}
+              data-testid="checkbox-require-verification"
+            />
+            <Label htmlFor="require-verification">Only send files to verified peers</Label>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,29 +1,129 @@
+import { useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Download, FileText } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Download, FileArchive, FileText, Loader2 } from 'lucide-react';
+import { createZip, writeZip, type ZipEntry } from '@/lib/zip-writer';
+import { splitRelativePath } from '@/lib/folder-entries';
 
-interface CompletedFile {
+export interface CompletedFile {
   id: string;
   name: string;
-  blob: Blob;
+  relativePath?: string; // set when the file was part of a folder
+  lastModified?: number;
+  isDirectory?: boolean; // an empty directory from a folder transfer
+  blob?: Blob; // absent when the file was streamed straight into a download
+  hash?: string;
+  savedTo?: 'folder' | 'downloads';
 }
 
 interface DownloadSectionProps {
   files: CompletedFile[];
 }
 
+function saveBlob(blob: Blob, name: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = name;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+type SaveFilePickerWindow = Window & {
+  showSaveFilePicker?: (options?: {
+    suggestedName?: string;
+    types?: Array<{ description?: string, accept: Record<string, string[]> }>;
+  }) => Promise<FileSystemFileHandle>;
+};
+
+// Writes the archive straight to disk where the browser lets us pick a save
+// location; otherwise builds a Blob that only references the received files.
+// Either way the archive is generated locally and never leaves the device.
+async function saveZip(entries: ZipEntry[], name: string): Promise<void> {
+  const pickerWindow = window as SaveFilePickerWindow;
+  if (pickerWindow.showSaveFilePicker) {
+    let handle: FileSystemFileHandle;
+    try {
+      handle = await pickerWindow.showSaveFilePicker({
+        suggestedName: name,
+        types: [{ description: 'ZIP archive', accept: { 'application/zip': ['.zip'] } }]
+      });
+    } catch {
+      // The user dismissed the picker
+      return;
+    }
+    await writeZip(entries, await handle.createWritable());
+    return;
+  }
+
+  saveBlob(await createZip(entries), name);
+}
+
+function toZipEntry(file: CompletedFile): ZipEntry {
+  return {
+    path: splitRelativePath(file.relativePath ?? file.name).join('/'),
+    data: file.isDirectory ? undefined : file.blob,
+    lastModified: file.lastModified
+  };
+}
+
+// Name of the top-level folder a file was sent in, if any
+function getTopFolder(file: CompletedFile): string | undefined {
+  const segments = splitRelativePath(file.relativePath ?? '');
+  return segments.length > 1 || (file.isDirectory && segments.length > 0) ? segments[0] : undefined;
+}
+
 export function DownloadSection({ files }: DownloadSectionProps) {
+  // Which archive is being built: a folder name, 'all' or 'selected'
+  const [zipping, setZipping] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
   const handleDownload = (file: CompletedFile) => {
-    const url = URL.createObjectURL(file.blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = file.name;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    if (!file.blob) return;
+    saveBlob(file.blob, file.name);
+  };
+
+  const handleDownloadZip = async (key: string, entries: CompletedFile[], name: string) => {
+    setZipping(key);
+    try {
+      await saveZip(entries.map(toZipEntry), name);
+    } catch (error) {
+      console.error('[DownloadSection] Error creating archive:', error);
+    } finally {
+      setZipping(null);
+    }
   };
 
+  const toggleSelected = (id: string, selected: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (selected) {
+        next.add(id);
+      } else {
+        next.delete(id);
+      }
+      return next;
+    });
+  };
+
+  const visibleFiles = files.filter(file => !file.isDirectory);
+  // Files streamed out as separate downloads are no longer here to archive
+  const zippableFiles = files.filter(file => file.isDirectory || file.blob);
+  const selectedFiles = visibleFiles.filter(file => file.blob && selectedIds.has(file.id));
+
+  // Folders whose files are all still available here (not already written
+  // to a chosen folder or streamed out as separate downloads)
+  const folders = Array.from(new Set(
+    files.map(getTopFolder).filter((folder): folder is string => folder !== undefined)
+  )).filter(folder =>
+    files.every(file =>
+      getTopFolder(file) !== folder || file.isDirectory || (file.blob && file.savedTo !== 'folder')
+    )
+  );
+
   if (files.length === 0) return null;
 
   return (
@@ -31,32 +131,113 @@ export function DownloadSection({ files }: DownloadSectionProps) {
       <CardHeader>
         <CardTitle className="text-xl">Completed Downloads</CardTitle>
         <CardDescription>
-          {files.length} file{files.length !== 1 ? 's' : ''} ready to download
+          {visibleFiles.length} file{visibleFiles.length !== 1 ? 's' : ''} received
         </CardDescription>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        {zippableFiles.some(file => !file.isDirectory) && (
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDownloadZip('all', zippableFiles, 'received-files.zip')}
+              disabled={zipping !== null}
+              data-testid="button-download-all-zip"
+            >
+              {zipping === 'all' ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <FileArchive className="mr-2 h-4 w-4" />
+              )}
+              Download all as ZIP
+            </Button>
+            {selectedFiles.length > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownloadZip('selected', selectedFiles, 'selected-files.zip')}
+                disabled={zipping !== null}
+                data-testid="button-download-selected-zip"
+              >
+                {zipping === 'selected' ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileArchive className="mr-2 h-4 w-4" />
+                )}
+                Download {selectedFiles.length} selected as ZIP
+              </Button>
+            )}
+            {folders.map(folder => (
+              <Button
+                key={folder}
+                variant="outline"
+                size="sm"
+                onClick={() => handleDownloadZip(
+                  `folder:${folder}`,
+                  files.filter(file => getTopFolder(file) === folder),
+                  `${folder}.zip`
+                )}
+                disabled={zipping !== null}
+                data-testid={`button-download-folder-${folder}`}
+              >
+                {zipping === `folder:${folder}` ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <FileArchive className="mr-2 h-4 w-4" />
+                )}
+                Download {folder} as ZIP
+              </Button>
+            ))}
+          </div>
+        )}
+
         <div className="space-y-2">
-          {files.map((file) => (
+          {visibleFiles.map((file) => (
             <div
               key={file.id}
               className="flex items-center justify-between p-3 border rounded-lg hover-elevate"
               data-testid={`row-download-${file.id}`}
             >
               <div className="flex items-center gap-3 flex-1 min-w-0">
+                <Checkbox
+                  checked={selectedIds.has(file.id)}
+                  onCheckedChange={(checked) => toggleSelected(file.id, checked === true)}
+                  disabled={!file.blob}
+                  aria-label={`Select ${file.name}`}
+                  data-testid={`checkbox-select-${file.id}`}
+                />
                 <FileText className="h-5 w-5 text-muted-foreground shrink-0" />
-                <span className="font-medium truncate" data-testid={`text-download-name-${file.id}`}>
-                  {file.name}
-                </span>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate" data-testid={`text-download-name-${file.id}`}>
+                    {file.relativePath ?? file.name}
+                  </p>
+                  {file.hash && (
+                    <p
+                      className="text-xs font-mono text-muted-foreground truncate"
+                      title={`Verified SHA-256: ${file.hash}`}
+                      data-testid={`text-download-hash-${file.id}`}
+                    >
+                      SHA-256 {file.hash}
+                    </p>
+                  )}
+                </div>
               </div>
-              <Button
-                variant="default"
-                size="sm"
-                onClick={() => handleDownload(file)}
-                data-testid={`button-download-${file.id}`}
-              >
-                <Download className="mr-2 h-4 w-4" />
-                Download
-              </Button>
+              {file.savedTo && (
+                <span className="text-sm text-muted-foreground shrink-0 mr-2" data-testid={`text-saved-${file.id}`}>
+                  Saved to {file.savedTo}
+                </span>
+              )}
+              {file.blob && (
+                <Button
+                  variant={file.savedTo ? 'outline' : 'default'}
+                  size="sm"
+                  onClick={() => handleDownload(file)}
+                  data-testid={`button-download-${file.id}`}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  Download
+                </Button>
+              )}
             </div>
           ))}
         </div>
@@ -1,15 +1,22 @@
-import { useCallback, useRef, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { CloudUpload, FileText } from 'lucide-react';
+import { CloudUpload, FileText, FolderUp } from 'lucide-react';
+import { collectDroppedEntries, entriesFromFiles, type SelectedEntry } from '@/lib/folder-entries';
 
 interface FileDropZoneProps {
-  onFilesSelected: (files: File[]) => void;
+  onFilesSelected: (entries: SelectedEntry[]) => void;
 }
 
 export function FileDropZone({ onFilesSelected }: FileDropZoneProps) {
   const [isDragging, setIsDragging] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // React does not know the non-standard webkitdirectory attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -28,26 +35,34 @@ export function FileDropZone({ onFilesSelected }: FileDropZoneProps) {
     e.stopPropagation();
     setIsDragging(false);
 
-    const files = Array.from(e.dataTransfer.files);
-    if (files.length > 0) {
-      onFilesSelected(files);
-    }
+    // Dropped folders are walked so their structure is kept
+    collectDroppedEntries(e.dataTransfer)
+      .then(entries => {
+        if (entries.length > 0) {
+          onFilesSelected(entries);
+        }
+      })
+      .catch(error => {
+        console.error('[FileDropZone] Error reading dropped items:', error);
+      });
   }, [onFilesSelected]);
 
   const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length > 0) {
-      onFilesSelected(files);
-    }
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
+      onFilesSelected(entriesFromFiles(files));
     }
+    e.target.value = '';
   }, [onFilesSelected]);
 
   const handleClick = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
 
+  const handleFolderClick = useCallback(() => {
+    folderInputRef.current?.click();
+  }, []);
+
   return (
     <Card 
       className={`border-2 border-dashed transition-colors cursor-pointer hover-elevate ${
@@ -68,19 +83,29 @@ export function FileDropZone({ onFilesSelected }: FileDropZoneProps) {
           }`}
         />
         <h3 className="text-lg font-semibold mb-2">
-          {isDragging ? 'Drop files here' : 'Drag files here or click to browse'}
+          {isDragging ? 'Drop files or folders here' : 'Drag files or folders here or click to browse'}
         </h3>
         <p className="text-sm text-muted-foreground mb-4">
-          Select multiple files to transfer to the connected peer
+          Select multiple files or whole folders to transfer to the connected peer
         </p>
-        <Button 
-          variant="outline" 
-          onClick={(e) => { e.stopPropagation(); handleClick(); }}
-          data-testid="button-browse-files"
-        >
-          <FileText className="mr-2 h-4 w-4" />
-          Browse Files
-        </Button>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <Button 
+            variant="outline" 
+            onClick={(e) => { e.stopPropagation(); handleClick(); }}
+            data-testid="button-browse-files"
+          >
+            <FileText className="mr-2 h-4 w-4" />
+            Browse Files
+          </Button>
+          <Button 
+            variant="outline" 
+            onClick={(e) => { e.stopPropagation(); handleFolderClick(); }}
+            data-testid="button-browse-folder"
+          >
+            <FolderUp className="mr-2 h-4 w-4" />
+            Browse Folder
+          </Button>
+        </div>
         <input
           ref={fileInputRef}
           type="file"
@@ -89,6 +114,14 @@ export function FileDropZone({ onFilesSelected }: FileDropZoneProps) {
           className="hidden"
           data-testid="input-file-picker"
         />
+        <input
+          ref={folderInputRef}
+          type="file"
+          multiple
+          onChange={handleFileInputChange}
+          className="hidden"
+          data-testid="input-folder-picker"
+        />
       </div>
     </Card>
   );
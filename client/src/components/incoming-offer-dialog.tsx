@@ -0,0 +1,88 @@
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { FileText, Folder, Image as ImageIcon } from 'lucide-react';
+import { formatBytes } from '@/lib/utils';
+import { peerLabel } from '@/components/peer-list';
+import type { FileTransfer } from '@shared/schema';
+
+interface IncomingOfferDialogProps {
+  offers: FileTransfer[];
+  onAccept: (id: string) => void;
+  onDecline: (id: string) => void;
+  // Accepts every offer from the given peer, now and until it leaves
+  onAcceptAll: (peerId: string) => void;
+}
+
+export function IncomingOfferDialog({ offers, onAccept, onDecline, onAcceptAll }: IncomingOfferDialogProps) {
+  // Offers are answered one at a time, oldest first
+  const offer = offers[0];
+  if (!offer) return null;
+
+  const { metadata } = offer;
+  const Icon = metadata.isDirectory ? Folder : metadata.type.startsWith('image/') ? ImageIcon : FileText;
+  const waiting = offers.length - 1;
+  const sender = offer.peerId ? peerLabel(offer.peerId) : 'Your peer';
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent data-testid="dialog-incoming-offer">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Incoming file</AlertDialogTitle>
+          <AlertDialogDescription>
+            {sender} wants to send you a file. Nothing is received until you accept.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="flex items-start gap-3 p-3 border rounded-lg">
+          <Icon className="h-5 w-5 mt-0.5 text-muted-foreground shrink-0" />
+          <div className="min-w-0">
+            <p className="font-medium truncate" data-testid="text-offer-name">
+              {metadata.relativePath ?? metadata.name}
+            </p>
+            <p className="text-sm text-muted-foreground" data-testid="text-offer-details">
+              {metadata.isDirectory
+                ? 'Empty folder'
+                : `${formatBytes(metadata.size)} • ${metadata.type || 'Unknown type'}`}
+            </p>
+          </div>
+        </div>
+
+        {waiting > 0 && (
+          <p className="text-sm text-muted-foreground" data-testid="text-offers-waiting">
+            {waiting} more file{waiting !== 1 ? 's' : ''} waiting
+          </p>
+        )}
+
+        <AlertDialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => onDecline(offer.id)}
+            data-testid="button-decline-offer"
+          >
+            Decline
+          </Button>
+          <Button
+            variant="secondary"
+            onClick={() => offer.peerId && onAcceptAll(offer.peerId)}
+            data-testid="button-accept-all-offers"
+          >
+            Accept all from this peer
+          </Button>
+          <Button
+            onClick={() => onAccept(offer.id)}
+            data-testid="button-accept-offer"
+          >
+            Accept
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import { Hand } from 'lucide-react';
+import { peerLabel } from '@/components/peer-list';
+
+interface JoinRequestsProps {
+  // Ids of the clients knocking, oldest first
+  knocks: string[];
+  onAnswer: (peerId: string, admit: boolean) => void;
+}
+
+// Shown to the room owner: everyone else waits here until let in
+export function JoinRequests({ knocks, onAnswer }: JoinRequestsProps) {
+  if (knocks.length === 0) return null;
+
+  return (
+    <div className="p-4 border rounded-lg bg-card space-y-3" data-testid="list-join-requests">
+      <p className="text-sm font-medium text-card-foreground">
+        Waiting to join
+      </p>
+      <p className="text-sm text-muted-foreground">
+        Only let in people you expect. Anyone with the link or the pairing code can ask.
+      </p>
+      <ul className="space-y-2">
+        {knocks.map(peerId => (
+          <li key={peerId} className="flex flex-wrap items-center gap-3" data-testid={`row-knock-${peerId}`}>
+            <Hand className="h-4 w-4 text-muted-foreground" />
+            <span className="font-mono text-sm">{peerLabel(peerId)}</span>
+            <div className="flex gap-2 ml-auto">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onAnswer(peerId, false)}
+                data-testid={`button-reject-${peerId}`}
+              >
+                Turn away
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => onAnswer(peerId, true)}
+                data-testid={`button-admit-${peerId}`}
+              >
+                Let in
+              </Button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { ShieldCheck, ShieldQuestion, UserX } from 'lucide-react';
+import type { ShortAuthString } from '@/lib/peer-verification';
+import type { ConnectionState } from '@shared/schema';
+
+export interface PeerSummary {
+  id: string;
+  state: ConnectionState;
+  verificationCode: ShortAuthString | null;
+  verified: boolean;
+}
+
+interface PeerListProps {
+  peers: PeerSummary[];
+  // Who dropped files go to; null sends to every connected peer
+  sendTargets: Set<string> | null;
+  onSendTargetsChange: (targets: Set<string> | null) => void;
+  onVerifiedChange: (peerId: string, verified: boolean) => void;
+  // Only for the room owner
+  onKick?: (peerId: string) => void;
+}
+
+// Peer ids are random, so their start is enough to tell peers apart
+export function peerLabel(peerId: string): string {
+  return `Peer ${peerId.slice(0, 4)}`;
+}
+
+const STATE_LABELS: Record<ConnectionState, string> = {
+  knocking: 'Waiting',
+  connected: 'Connected',
+  connecting: 'Connecting...',
+  reconnecting: 'Reconnecting...',
+  disconnected: 'Disconnected',
+  'peer-left': 'Left',
+  'room-unavailable': 'Room gone',
+  'room-full': 'Room full',
+  'turned-away': 'Turned away',
+  error: 'Error'
+};
+
+export function PeerList({ peers, sendTargets, onSendTargetsChange, onVerifiedChange, onKick }: PeerListProps) {
+  if (peers.length === 0) return null;
+
+  const handleTargetChange = (peerId: string, checked: boolean) => {
+    const next = new Set(sendTargets ?? []);
+    if (checked) {
+      next.add(peerId);
+    } else {
+      next.delete(peerId);
+    }
+    onSendTargetsChange(next);
+  };
+
+  return (
+    <div className="p-4 border rounded-lg bg-card space-y-4" data-testid="list-peers">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <span className="text-sm font-medium text-card-foreground">
+          Peers in this room
+        </span>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="send-to-all"
+            checked={sendTargets === null}
+            onCheckedChange={(checked) => onSendTargetsChange(checked === true ? null : new Set())}
+            data-testid="checkbox-send-to-all"
+          />
+          <Label htmlFor="send-to-all">Send to all peers</Label>
+        </div>
+      </div>
+
+      <ul className="space-y-3">
+        {peers.map(peer => {
+          const connected = peer.state === 'connected';
+          const code = connected ? peer.verificationCode : null;
+          return (
+            <li key={peer.id} className="space-y-2 border-t pt-3" data-testid={`row-peer-${peer.id}`}>
+              <div className="flex flex-wrap items-center gap-3">
+                <Checkbox
+                  id={`send-to-${peer.id}`}
+                  checked={sendTargets === null ? connected : sendTargets.has(peer.id)}
+                  disabled={sendTargets === null || !connected}
+                  onCheckedChange={(checked) => handleTargetChange(peer.id, checked === true)}
+                  aria-label={`Send files to ${peerLabel(peer.id)}`}
+                  data-testid={`checkbox-send-to-${peer.id}`}
+                />
+                <Label htmlFor={`send-to-${peer.id}`} className="font-mono">
+                  {peerLabel(peer.id)}
+                </Label>
+                <Badge variant="outline" className="text-muted-foreground" data-testid={`badge-peer-state-${peer.id}`}>
+                  {STATE_LABELS[peer.state]}
+                </Badge>
+                {code && (
+                  <Badge
+                    variant="outline"
+                    className={`gap-1.5 ${peer.verified ? 'text-green-600 dark:text-green-400 border-green-500/20' : 'text-muted-foreground'}`}
+                    data-testid={`badge-verification-${peer.id}`}
+                  >
+                    {peer.verified ? <ShieldCheck className="h-3.5 w-3.5" /> : <ShieldQuestion className="h-3.5 w-3.5" />}
+                    {peer.verified ? 'Verified' : 'Not verified'}
+                  </Badge>
+                )}
+                {onKick && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto text-destructive"
+                    onClick={() => onKick(peer.id)}
+                    data-testid={`button-kick-${peer.id}`}
+                  >
+                    <UserX className="mr-1 h-4 w-4" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+
+              {code && (
+                <div className="flex flex-wrap items-center gap-4 pl-7" data-testid={`panel-verification-${peer.id}`}>
+                  <div className="flex gap-2 text-xl">
+                    {code.emoji.map((item, index) => (
+                      <span key={index} title={item.name} aria-label={item.name} role="img">
+                        {item.symbol}
+                      </span>
+                    ))}
+                  </div>
+                  <span className="font-mono tracking-wider text-card-foreground">
+                    {code.digits.slice(0, 3)} {code.digits.slice(3)}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`peer-verified-${peer.id}`}
+                      checked={peer.verified}
+                      onCheckedChange={(verified) => onVerifiedChange(peer.id, verified)}
+                      data-testid={`switch-peer-verified-${peer.id}`}
+                    />
+                    <Label htmlFor={`peer-verified-${peer.id}`}>Codes match</Label>
+                  </div>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import { Button } from '@/components/ui/button';
+import { FolderOpen, HardDriveDownload, X } from 'lucide-react';
+
+interface ReceiveLocationProps {
+  directoryName: string | null;
+  onChooseDirectory: () => void;
+  onClearDirectory: () => void;
+}
+
+export function ReceiveLocation({ directoryName, onChooseDirectory, onClearDirectory }: ReceiveLocationProps) {
+  return (
+    <div className="flex items-center justify-between gap-3 p-4 border rounded-lg bg-card" data-testid="panel-receive-location">
+      <div className="flex items-center gap-3 min-w-0">
+        <HardDriveDownload className="h-5 w-5 text-muted-foreground shrink-0" />
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-card-foreground">Received files</p>
+          <p className="text-sm text-muted-foreground truncate" data-testid="text-receive-location">
+            {directoryName
+              ? `Written straight to "${directoryName}"`
+              : 'Kept in the browser; large files stream to your downloads'}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-1 shrink-0">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onChooseDirectory}
+          data-testid="button-choose-directory"
+        >
+          <FolderOpen className="mr-2 h-4 w-4" />
+          {directoryName ? 'Change folder' : 'Save to folder'}
+        </Button>
+        {directoryName && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onClearDirectory}
+            aria-label="Stop saving to folder"
+            data-testid="button-clear-directory"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
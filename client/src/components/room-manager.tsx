@@ -1,57 +1,195 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Copy, Check, Plus, LogIn } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Copy, Check, Plus, LogIn, Lock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import type { ConnectionState } from '@shared/schema';
+import { generateLinkSecret, readLinkSecret } from '@/lib/link-encryption';
+import { createRoom, findRoomByCode, inspectRoom, rememberOwnerToken, recallOwnerToken, RoomsApiError } from '@/lib/rooms';
+import { normalizePairingCode, DEFAULT_ROOM_CAPACITY, MAX_ROOM_CAPACITY } from '@shared/schema';
+import type { ConnectionState, SignalingErrorCode } from '@shared/schema';
 
 interface RoomManagerProps {
   roomId: string;
+  linkSecret: string | null;
   connectionState: ConnectionState;
-  onRoomCreated: (roomId: string) => void;
-  onJoinRoom: (roomId: string) => void;
+  // Other peers in the room right now
+  peerCount: number;
+  hasPassword: boolean;
+  passwordError: SignalingErrorCode | null;
+  // Passwords are empty when the room has none; they never leave the browser.
+  // The link secret is null unless the room is end-to-end encrypted.
+  onRoomCreated: (roomId: string, linkSecret: string | null, password: string) => void;
+  onJoinRoom: (roomId: string, linkSecret: string | null, password: string) => void;
+  onRetryPassword: (password: string) => void;
 }
 
-function generateRoomId(): string {
-  const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
-  let result = '';
-  for (let i = 0; i < 6; i++) {
-    result += chars[Math.floor(Math.random() * chars.length)];
+// The key travels in the fragment, which browsers never send to the server
+function roomPath(roomId: string, linkSecret: string | null): string {
+  return linkSecret ? `/?room=${roomId}#k=${linkSecret}` : `/?room=${roomId}`;
+}
+
+type JoinTarget =
+  | { roomId: string, linkSecret: string | null }
+  | { code: string };
+
+// Room sizes offered when creating a room
+const ROOM_SIZES = Array.from({ length: MAX_ROOM_CAPACITY - 1 }, (_, index) => index + 2);
+
+// Accepts a pairing code, a pasted share link or a bare room id. Room ids
+// are case-sensitive; pairing codes are not.
+function parseJoinInput(input: string): JoinTarget {
+  try {
+    const url = new URL(input);
+    const roomId = url.searchParams.get('room');
+    if (roomId) {
+      return { roomId, linkSecret: readLinkSecret(url.hash) };
+    }
+  } catch {
+    // Not a link
   }
-  return result;
+
+  const code = normalizePairingCode(input);
+  return code ? { code } : { roomId: input, linkSecret: null };
 }
 
-export function RoomManager({ roomId, connectionState, onRoomCreated, onJoinRoom }: RoomManagerProps) {
+export function RoomManager({
+  roomId,
+  linkSecret,
+  connectionState,
+  peerCount,
+  hasPassword,
+  passwordError,
+  onRoomCreated,
+  onJoinRoom,
+  onRetryPassword
+}: RoomManagerProps) {
   const [joinRoomInput, setJoinRoomInput] = useState('');
+  const [createPassword, setCreatePassword] = useState('');
+  const [capacity, setCapacity] = useState(DEFAULT_ROOM_CAPACITY);
+  // Opt-in: the key only travels in the link, so pairing codes cannot be
+  // used to join an encrypted room
+  const [encrypt, setEncrypt] = useState(false);
+  const [joinPassword, setJoinPassword] = useState('');
+  const [retryPassword, setRetryPassword] = useState('');
+  // The code of the room we created, shown until the room is full
+  const [pairingCode, setPairingCode] = useState<{ code: string, capacity: number } | null>(null);
+  const [busy, setBusy] = useState(false);
   const [copied, setCopied] = useState(false);
   const { toast } = useToast();
 
-  const handleCreateRoom = () => {
-    const newRoomId = generateRoomId();
-    onRoomCreated(newRoomId);
-    const newUrl = `${window.location.origin}/?room=${newRoomId}`;
-    window.history.pushState({}, '', `/?room=${newRoomId}`);
-    toast({
-      title: 'Room created',
-      description: 'Share the link with someone to start transferring files'
-    });
+  // The server releases the code as soon as the room is full
+  useEffect(() => {
+    if (pairingCode && peerCount + 1 >= pairingCode.capacity) {
+      setPairingCode(null);
+    }
+  }, [pairingCode, peerCount]);
+
+  const handleCreateRoom = async () => {
+    setBusy(true);
+    try {
+      const room = await createRoom({ capacity });
+      const newLinkSecret = encrypt ? generateLinkSecret() : null;
+      rememberOwnerToken(room.roomId, room.ownerToken);
+      // Someone joining by code would not have the key
+      if (!newLinkSecret) {
+        setPairingCode({ code: room.code, capacity: room.capacity });
+      }
+      onRoomCreated(room.roomId, newLinkSecret, createPassword);
+      window.history.pushState({}, '', roomPath(room.roomId, newLinkSecret));
+      const share = newLinkSecret ? 'the link' : 'the link or code';
+      toast({
+        title: 'Room created',
+        description: createPassword
+          ? `Share ${share}, and the password separately, to start transferring files`
+          : `Share ${share} with someone to start transferring files`
+      });
+      setCreatePassword('');
+    } catch (error) {
+      console.error('[RoomManager] Error creating room:', error);
+      toast({
+        title: 'Could not create room',
+        description: error instanceof RoomsApiError ? error.message : 'The server did not respond. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setBusy(false);
+    }
   };
 
-  const handleJoinRoom = () => {
-    if (joinRoomInput.trim()) {
-      const trimmedRoomId = joinRoomInput.trim().toLowerCase();
-      onJoinRoom(trimmedRoomId);
-      window.history.pushState({}, '', `/?room=${trimmedRoomId}`);
+  const handleJoinRoom = async () => {
+    const input = joinRoomInput.trim();
+    if (!input) return;
+
+    const target = parseJoinInput(input);
+    let joinRoomId: string;
+    const joinLinkSecret = 'code' in target ? null : target.linkSecret;
+
+    // Check the room before opening a WebSocket, to say why it cannot be joined
+    setBusy(true);
+    try {
+      if ('code' in target) {
+        const found = await findRoomByCode(target.code);
+        if (!found) {
+          toast({
+            title: 'Room not found',
+            description: `No room has the code ${target.code}. Codes stop working once the room is full, or after 10 minutes.`,
+            variant: 'destructive'
+          });
+          return;
+        }
+        joinRoomId = found;
+      } else {
+        joinRoomId = target.roomId;
+      }
+
+      const room = await inspectRoom(joinRoomId);
+      const problem = !room
+        ? { title: 'Room not found', description: 'This room does not exist. Ask for a new link or code.' }
+        : room.expired
+          ? { title: 'Room expired', description: 'This room can no longer be joined. Ask for a new link or code.' }
+          : room.full
+            ? { title: 'Room is full', description: 'Every place in this room is taken.' }
+            : room.locked && !recallOwnerToken(joinRoomId)
+              ? { title: 'Room locked', description: 'The owner has locked this room. Ask them to unlock it.' }
+              : null;
+      if (problem) {
+        toast({ ...problem, variant: 'destructive' });
+        return;
+      }
+    } catch (error) {
+      console.error('[RoomManager] Error checking room:', error);
       toast({
-        title: 'Joining room',
-        description: `Connecting to room ${trimmedRoomId}...`
+        title: 'Could not join room',
+        description: error instanceof RoomsApiError ? error.message : 'The server did not respond. Please try again.',
+        variant: 'destructive'
       });
+      return;
+    } finally {
+      setBusy(false);
     }
+
+    onJoinRoom(joinRoomId, joinLinkSecret, joinPassword);
+    setJoinPassword('');
+    window.history.pushState({}, '', roomPath(joinRoomId, joinLinkSecret));
+    toast({
+      title: 'Joining room',
+      description: joinLinkSecret
+        ? 'Connecting with end-to-end encryption...'
+        : 'Connecting...'
+    });
+  };
+
+  const handleRetryPassword = () => {
+    onRetryPassword(retryPassword);
+    setRetryPassword('');
   };
 
   const handleCopyLink = async () => {
-    const shareableLink = `${window.location.origin}/?room=${roomId}`;
+    const shareableLink = `${window.location.origin}${roomPath(roomId, linkSecret)}`;
     try {
       await navigator.clipboard.writeText(shareableLink);
       setCopied(true);
@@ -75,24 +213,70 @@ export function RoomManager({ roomId, connectionState, onRoomCreated, onJoinRoom
         <CardHeader>
           <CardTitle className="text-2xl">Room Active</CardTitle>
           <CardDescription>
-            Share this link to connect with another device
+            {linkSecret
+              ? 'Share this link to connect with other devices; it carries the encryption key'
+              : 'Share this link or the pairing code to connect with other devices'}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex items-center gap-2">
             <div className="flex-1">
-              <label className="text-sm font-medium text-muted-foreground mb-2 block">
-                Room Code
-              </label>
-              <p className="text-4xl font-bold font-mono tracking-wider text-foreground">
-                {roomId}
-              </p>
+              {pairingCode ? (
+                <>
+                  <label className="text-sm font-medium text-muted-foreground mb-2 block">
+                    Pairing Code
+                  </label>
+                  <p className="text-4xl font-bold font-mono tracking-wider text-foreground" data-testid="text-pairing-code">
+                    {pairingCode.code}
+                  </p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Works until the room is full, for 10 minutes. The link keeps working.
+                  </p>
+                </>
+              ) : (
+                <label className="text-sm font-medium text-muted-foreground block">
+                  Share Link
+                </label>
+              )}
             </div>
+            {hasPassword && (
+              <div className="flex items-center gap-1 text-sm text-muted-foreground" data-testid="text-password-protected">
+                <Lock className="h-4 w-4" />
+                Password protected
+              </div>
+            )}
           </div>
+
+          {passwordError && connectionState === 'error' && (
+            <div className="space-y-2" data-testid="form-retry-password">
+              <label className="text-sm font-medium text-muted-foreground block">
+                {passwordError === 'PASSWORD_REQUIRED'
+                  ? 'This room needs a password'
+                  : 'The password did not match. Try again'}
+              </label>
+              <div className="flex gap-2">
+                <Input
+                  type="password"
+                  placeholder="Room password"
+                  value={retryPassword}
+                  onChange={(e) => setRetryPassword(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleRetryPassword()}
+                  autoComplete="off"
+                  data-testid="input-retry-password"
+                />
+                <Button
+                  onClick={handleRetryPassword}
+                  data-testid="button-retry-password"
+                >
+                  Try again
+                </Button>
+              </div>
+            </div>
+          )}
           
           <div className="flex items-center gap-2">
             <Input
-              value={`${window.location.origin}/?room=${roomId}`}
+              value={`${window.location.origin}${roomPath(roomId, linkSecret)}`}
               readOnly
               className="font-mono text-sm"
               data-testid="input-shareable-link"
@@ -125,9 +309,44 @@ export function RoomManager({ roomId, connectionState, onRoomCreated, onJoinRoom
             Start a new room and share the link
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-3">
+          <Input
+            type="password"
+            placeholder="Password (optional)"
+            value={createPassword}
+            onChange={(e) => setCreatePassword(e.target.value)}
+            autoComplete="new-password"
+            data-testid="input-create-password"
+          />
+          <Select value={String(capacity)} onValueChange={(value) => setCapacity(Number(value))}>
+            <SelectTrigger aria-label="Room size" data-testid="select-room-capacity">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROOM_SIZES.map(size => (
+                <SelectItem key={size} value={String(size)}>
+                  {size === 2 ? 'Just two devices' : `Up to ${size} devices`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-start gap-2">
+            <Switch
+              id="create-encrypted"
+              checked={encrypt}
+              onCheckedChange={setEncrypt}
+              data-testid="switch-create-encrypted"
+            />
+            <div className="space-y-1">
+              <Label htmlFor="create-encrypted">End-to-end encryption</Label>
+              <p className="text-xs text-muted-foreground">
+                The key travels in the link, so the room can only be joined with the link, not a pairing code
+              </p>
+            </div>
+          </div>
           <Button 
             onClick={handleCreateRoom} 
+            disabled={busy}
             className="w-full"
             size="lg"
             data-testid="button-create-room"
@@ -142,13 +361,22 @@ export function RoomManager({ roomId, connectionState, onRoomCreated, onJoinRoom
         <CardHeader>
           <CardTitle>Join Room</CardTitle>
           <CardDescription>
-            Enter a room code to connect
+            Enter a pairing code or paste a link to connect
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-3">
+          <Input
+            type="password"
+            placeholder="Password (if the room has one)"
+            value={joinPassword}
+            onChange={(e) => setJoinPassword(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleJoinRoom()}
+            autoComplete="off"
+            data-testid="input-join-password"
+          />
           <div className="flex gap-2">
             <Input
-              placeholder="Enter room code"
+              placeholder="Enter pairing code or paste link"
               value={joinRoomInput}
               onChange={(e) => setJoinRoomInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleJoinRoom()}
@@ -157,7 +385,7 @@ export function RoomManager({ roomId, connectionState, onRoomCreated, onJoinRoom
             />
             <Button 
               onClick={handleJoinRoom}
-              disabled={!joinRoomInput.trim()}
+              disabled={busy || !joinRoomInput.trim()}
               data-testid="button-join-room"
             >
               <LogIn className="h-4 w-4" />
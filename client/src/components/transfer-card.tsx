@@ -2,6 +2,8 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { FileText, Image as ImageIcon, Pause, Play, X } from 'lucide-react';
+import { formatBytes } from '@/lib/utils';
+import { peerLabel } from '@/components/peer-list';
 import type { FileTransfer } from '@shared/schema';
 
 interface TransferCardProps {
@@ -11,14 +13,6 @@ interface TransferCardProps {
   onCancel?: (id: string) => void;
 }
 
-function formatBytes(bytes: number): string {
-  if (bytes === 0) return '0 B';
-  const k = 1024;
-  const sizes = ['B', 'KB', 'MB', 'GB'];
-  const i = Math.floor(Math.log(bytes) / Math.log(k));
-  return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`;
-}
-
 function formatSpeed(bytesPerSecond: number): string {
   return `${formatBytes(bytesPerSecond)}/s`;
 }
@@ -38,8 +32,8 @@ export function TransferCard({ transfer, onPause, onResume, onCancel }: Transfer
   const isImage = transfer.metadata.type.startsWith('image/');
   const Icon = isImage ? ImageIcon : FileText;
 
-  const canPause = transfer.status === 'transferring' && transfer.direction === 'sending';
-  const canResume = transfer.status === 'paused' && transfer.direction === 'sending';
+  const canPause = transfer.status === 'transferring';
+  const canResume = transfer.status === 'paused';
   const canCancel = ['pending', 'transferring', 'paused'].includes(transfer.status);
 
   return (
@@ -53,12 +47,14 @@ export function TransferCard({ transfer, onPause, onResume, onCancel }: Transfer
               </div>
               <div className="flex-1 min-w-0">
                 <h4 className="font-medium text-base truncate" data-testid={`text-filename-${transfer.id}`}>
-                  {transfer.metadata.name}
+                  {transfer.metadata.relativePath ?? transfer.metadata.name}
                 </h4>
                 <p className="text-sm text-muted-foreground" data-testid={`text-filesize-${transfer.id}`}>
                   {formatBytes(transfer.metadata.size)}
                   {transfer.direction === 'receiving' && ' • Receiving'}
                   {transfer.direction === 'sending' && ' • Sending'}
+                  {transfer.peerId && (transfer.direction === 'sending' ? ' to ' : ' from ') + peerLabel(transfer.peerId)}
+                  {transfer.metadata.compression && ' • Compressed'}
                 </p>
               </div>
             </div>
@@ -111,16 +107,32 @@ export function TransferCard({ transfer, onPause, onResume, onCancel }: Transfer
                 {formatSpeed(transfer.speed)} • {formatTime(transfer.eta)} left
               </span>
             )}
+            {transfer.status === 'pending' && transfer.direction === 'sending' && (
+              <span data-testid={`text-waiting-${transfer.id}`}>Waiting for peer</span>
+            )}
             {transfer.status === 'paused' && (
               <span className="text-yellow-600 dark:text-yellow-400">Paused</span>
             )}
             {transfer.status === 'completed' && (
               <span className="text-green-600 dark:text-green-400">Complete</span>
             )}
+            {transfer.status === 'declined' && (
+              <span className="text-yellow-600 dark:text-yellow-400">Declined by peer</span>
+            )}
             {transfer.status === 'error' && (
               <span className="text-destructive">Error: {transfer.error}</span>
             )}
           </div>
+
+          {transfer.status === 'completed' && transfer.fileHash && (
+            <p
+              className="text-xs font-mono text-muted-foreground break-all"
+              title="SHA-256 of the whole file; compare it with your peer's or with sha256sum"
+              data-testid={`text-hash-${transfer.id}`}
+            >
+              SHA-256: {transfer.fileHash}
+            </p>
+          )}
         </div>
       </CardContent>
     </Card>
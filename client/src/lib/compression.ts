@@ -0,0 +1,116 @@
+import type { CompressionCodec } from '@shared/schema';
+
+// Per-chunk compression for file transfers.
+//
+// Each chunk is compressed on its own rather than as one stream per file, so
+// chunks stay independent: they can be verified, written at their offset and
+// resent after a resync without decompressing anything that came before.
+
+// Preferred first; deflate-raw skips gzip's header and CRC, which the chunk
+// hashes make redundant
+const CODEC_PREFERENCE: CompressionCodec[] = ['deflate-raw', 'gzip'];
+
+// Formats that are already compressed and would only grow
+const INCOMPRESSIBLE_TYPES = [
+  /^image\/(jpeg|png|gif|webp|avif|heic|heif)$/,
+  /^video\//,
+  /^audio\/(mpeg|mp4|aac|ogg|opus|webm|flac)$/,
+  /^application\/(zip|gzip|x-gzip|x-7z-compressed|x-rar-compressed|vnd\.rar|x-bzip2|x-xz|zstd|pdf|epub\+zip)$/,
+  /^application\/vnd\.openxmlformats-officedocument\./,
+  /^font\/(woff|woff2)$/
+];
+
+const COMPRESSIBLE_TYPES = [
+  /^text\//,
+  /^application\/(json|xml|javascript|x-javascript|sql|x-sh|x-yaml|yaml|x-ndjson|ld\+json|wasm)$/,
+  /\+xml$/,
+  /\+json$/,
+  /^image\/(svg\+xml|bmp|x-ms-bmp|tiff)$/
+];
+
+// Not worth a round through the compressor
+const MIN_COMPRESSIBLE_SIZE = 1024;
+const ENTROPY_SAMPLE_SIZE = 16 * 1024;
+// Bits per byte above which a sample is treated as already compressed
+const MAX_SAMPLE_ENTROPY = 7.5;
+
+// Codecs this browser can both compress and decompress
+export function supportedCodecs(): CompressionCodec[] {
+  if (typeof CompressionStream === 'undefined' || typeof DecompressionStream === 'undefined') {
+    return [];
+  }
+
+  return CODEC_PREFERENCE.filter(codec => {
+    try {
+      new CompressionStream(codec);
+      new DecompressionStream(codec);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+// Shannon entropy of a byte sample, in bits per byte (0 to 8)
+function sampleEntropy(bytes: Uint8Array): number {
+  const counts = new Array<number>(256).fill(0);
+  for (let i = 0; i < bytes.length; i++) {
+    counts[bytes[i]]++;
+  }
+
+  let entropy = 0;
+  for (const count of counts) {
+    if (count === 0) continue;
+    const p = count / bytes.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+// Picks a codec for a file both peers support, or undefined to send it as is.
+// Known MIME types decide directly; anything else is judged by sampling the
+// entropy of its first bytes.
+export async function chooseCompression(
+  file: Blob,
+  peerCodecs: CompressionCodec[]
+): Promise<CompressionCodec | undefined> {
+  const codec = supportedCodecs().find(candidate => peerCodecs.includes(candidate));
+  if (!codec || file.size < MIN_COMPRESSIBLE_SIZE) return undefined;
+
+  const type = file.type.toLowerCase();
+  if (INCOMPRESSIBLE_TYPES.some(pattern => pattern.test(type))) return undefined;
+  if (COMPRESSIBLE_TYPES.some(pattern => pattern.test(type))) return codec;
+
+  const sample = new Uint8Array(await file.slice(0, ENTROPY_SAMPLE_SIZE).arrayBuffer());
+  return sampleEntropy(sample) < MAX_SAMPLE_ENTROPY ? codec : undefined;
+}
+
+export function compressChunk(data: ArrayBuffer, codec: CompressionCodec): Promise<ArrayBuffer> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream(codec));
+  return new Response(stream).arrayBuffer();
+}
+
+// Stops as soon as the output grows past maxSize so a tiny malicious payload
+// cannot expand into something far bigger than a chunk
+export async function decompressChunk(
+  data: ArrayBuffer,
+  codec: CompressionCodec,
+  maxSize: number
+): Promise<ArrayBuffer> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(codec)).getReader();
+  const parts: Uint8Array[] = [];
+  let size = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxSize) {
+      await reader.cancel();
+      throw new Error('Decompressed chunk is larger than a chunk may be');
+    }
+    parts.push(value);
+  }
+
+  return new Blob(parts).arrayBuffer();
+}
@@ -1,13 +1,31 @@
-import { DEFAULT_P2P_CONFIG as P2P_CONFIG } from '@shared/schema';
+import { DEFAULT_P2P_CONFIG as P2P_CONFIG, CHUNK_HEADER_SIZE, encodeChunkFrame, decodeChunkFrame, knownCodecs } from '@shared/schema';
 import type { 
   FileMetadata, 
   FileControlMessage,
   SendingTransfer,
   ReceivingTransfer,
-  FileTransfer
+  FileTransfer,
+  ChunkFrame,
+  CompressionCodec,
+  TransferStatus
 } from '@shared/schema';
-import type { WebRTCManager } from './webrtc-manager';
+import type { PeerConnection } from './peer-connection';
 import { randomUUID } from '@/lib/utils';
+import { hashChunk, hashesEqual, FileHasher } from '@/lib/integrity';
+import { createReceiveSink, type ReceiveSink } from '@/lib/receive-sinks';
+import type { SelectedEntry } from '@/lib/folder-entries';
+import { supportedCodecs, chooseCompression, compressChunk, decompressChunk } from '@/lib/compression';
+
+// Room left in each message for a compressed chunk that came out larger,
+// plus the IV and tag of an encrypted one
+const MESSAGE_OVERHEAD = 1024;
+// Chunk size aims for about this many chunks a second, balancing per-message
+// overhead against progress granularity and how long one chunk ties up a channel
+const TARGET_CHUNKS_PER_SECOND = 40;
+const THROUGHPUT_WINDOW_MS = 1000;
+// Chunk data a receiving transfer may hold while it waits to be verified and
+// written: the receive window, the chunk being written and one more in flight
+const MAX_QUEUED_BYTES = P2P_CONFIG.receiveWindow + 2 * (P2P_CONFIG.maxChunkSize + MESSAGE_OVERHEAD);
 
 export interface FileTransferCallbacks {
   onTransferUpdate: (transfer: FileTransfer) => void;
@@ -15,166 +33,399 @@ export interface FileTransferCallbacks {
   onError: (fileId: string, error: string) => void;
 }
 
+// Transfers with one peer; a room with several peers has one manager for each
 export class FileTransferManager {
-  private webrtc: WebRTCManager;
+  private webrtc: PeerConnection;
   private callbacks: FileTransferCallbacks;
-  private sendingTransfers: Map<string, { transfer: SendingTransfer, file: File }> = new Map();
+  private sendingTransfers: Map<string, { transfer: SendingTransfer, file: Blob }> = new Map();
   private receivingTransfers: Map<string, ReceivingTransfer> = new Map();
-  private sendingIntervals: Map<string, number> = new Map();
+  private receivingStreams: Map<number, string> = new Map(); // streamId -> fileId
+  private nextStreamId: number = 1;
+  private receiveSinks: Map<string, ReceiveSink> = new Map();
+  private downloadDirectory: FileSystemDirectoryHandle | null = null;
+  // Set by "accept all from this peer"; cleared when the peer leaves
+  private autoAccept: boolean = false;
+  // Compression formats the peer announced it can decode. Files offered
+  // before its 'capabilities' message arrives are sent uncompressed.
+  private peerCodecs: CompressionCodec[] = [];
+  // Chunk verification is async; each receiving transfer verifies its chunks
+  // in order so completion only runs once every chunk has been checked
+  private verificationChains: Map<string, Promise<void>> = new Map();
+  // Bytes of chunk frames waiting in each verification chain
+  private queuedBytes: Map<string, number> = new Map();
+  // Expected file hashes of transfers whose 'transfer-complete' overtook
+  // chunks still travelling on other DataChannels
+  private pendingCompletions: Map<string, string> = new Map();
+  // SHA-256 of each file being sent or received, fed as its chunks go by
+  private fileHashers: Map<string, FileHasher> = new Map();
+  // Sending transfers interrupted by a DataChannel drop, waiting for the
+  // receiver to tell us where to continue from
+  private awaitingResync: Set<string> = new Set();
+  // Sending transfers whose every chunk and 'transfer-complete' went out,
+  // waiting for the receiver's 'transfer-verified'. They give up their send
+  // slot meanwhile, and take one again if the DataChannel drops.
+  private awaitingVerification: Set<string> = new Set();
+  // Send scheduler: files wait in sendQueue (smallest first) until one of
+  // maxConcurrentSends slots in activeSends frees up. Active files take turns
+  // sending one chunk each, so a large file cannot hold up small ones.
+  private sendQueue: string[] = [];
+  private activeSends: string[] = [];
+  private roundRobinIndex: number = 0;
+  private pumping: boolean = false;
+  // Set while the user requires the peer to be verified first; files keep
+  // queueing and go out once it is lifted
+  private sendingBlocked: boolean = false;
+  // Size of the next new chunk, adapted to the throughput measured over
+  // the last window
+  private chunkSize: number = P2P_CONFIG.chunkSize;
+  private windowStart: number = 0;
+  private windowBytes: number = 0;
 
-  constructor(webrtc: WebRTCManager, callbacks: FileTransferCallbacks) {
+  constructor(webrtc: PeerConnection, callbacks: FileTransferCallbacks) {
     this.webrtc = webrtc;
     this.callbacks = callbacks;
   }
 
-  async sendFiles(files: File[]): Promise<void> {
-    // Send files sequentially to avoid chunk corruption
-    for (const file of files) {
-      await this.sendFile(file);
+  // Files received from now on are written into this directory
+  setDownloadDirectory(directory: FileSystemDirectoryHandle | null): void {
+    this.downloadDirectory = directory;
+  }
+
+  setSendingBlocked(blocked: boolean): void {
+    this.sendingBlocked = blocked;
+    if (!blocked) {
+      this.pumpSendQueue();
     }
   }
 
-  private async sendFile(file: File): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const fileId = randomUUID();
-      const totalChunks = Math.ceil(file.size / P2P_CONFIG.chunkSize);
+  sendFiles(entries: SelectedEntry[]): void {
+    for (const entry of entries) {
+      this.queueEntry(entry);
+    }
 
-      const metadata: FileMetadata = {
-        id: fileId,
-        name: file.name,
-        size: file.size,
-        type: file.type,
-        totalChunks
-      };
+    this.sendQueue.sort((a, b) =>
+      this.sendingTransfers.get(a)!.file.size - this.sendingTransfers.get(b)!.file.size
+    );
+    this.pumpSendQueue();
+  }
 
-      // Create sending transfer state
-      const transfer: SendingTransfer = {
-        id: fileId,
-        direction: 'sending',
-        metadata,
-        status: 'pending',
-        bytesTransferred: 0,
-        totalBytes: file.size,
-        speed: 0,
-        eta: 0,
-        startTime: Date.now(),
-        lastUpdateTime: Date.now(),
-        currentChunkIndex: 0
-      };
+  private queueEntry(entry: SelectedEntry): void {
+    const fileId = randomUUID();
+    // Empty directories go through the same pipeline as a file with no chunks
+    const file: Blob = entry.kind === 'file' ? entry.file : new Blob();
+    const name = entry.kind === 'file'
+      ? entry.file.name
+      : entry.relativePath.split('/').filter(Boolean).pop() ?? entry.relativePath;
 
-      this.sendingTransfers.set(fileId, { transfer, file });
-      this.callbacks.onTransferUpdate(transfer);
+    const metadata: FileMetadata = {
+      id: fileId,
+      name,
+      size: file.size,
+      type: file.type,
+      streamId: this.nextStreamId++,
+      relativePath: entry.relativePath,
+      lastModified: entry.kind === 'file' ? entry.file.lastModified : undefined,
+      isDirectory: entry.kind === 'directory' || undefined
+    };
+
+    // Create sending transfer state
+    const transfer: SendingTransfer = {
+      id: fileId,
+      direction: 'sending',
+      metadata,
+      status: 'pending',
+      bytesTransferred: 0,
+      totalBytes: file.size,
+      speed: 0,
+      eta: 0,
+      startTime: Date.now(),
+      lastUpdateTime: Date.now(),
+      currentChunkIndex: 0,
+      chunkHashes: [],
+      chunkEnds: [],
+      confirmedChunks: 0,
+      peerId: this.webrtc.peerId
+    };
+
+    this.sendingTransfers.set(fileId, { transfer, file });
+    this.sendQueue.push(fileId);
+    this.callbacks.onTransferUpdate(transfer);
+  }
+
+  private async admitQueuedSends(): Promise<void> {
+    while (this.activeSends.length < P2P_CONFIG.maxConcurrentSends && this.sendQueue.length > 0) {
+      const fileId = this.sendQueue.shift()!;
+      const data = this.sendingTransfers.get(fileId);
+      if (!data) continue;
+
+      const { transfer, file } = data;
+      // Hold the slot while the file is sampled
+      this.activeSends.push(fileId);
+
+      if (!transfer.metadata.isDirectory) {
+        transfer.metadata.compression = await chooseCompression(file, this.peerCodecs);
+      }
+
+      // Cancelled while being sampled
+      if (transfer.status !== 'pending') continue;
 
       // Send metadata to peer
       const metadataMessage: FileControlMessage = {
         type: 'file-metadata',
-        metadata
+        metadata: transfer.metadata
       };
+      // Stays pending until the receiver accepts or declines it
       this.webrtc.sendControlMessage(metadataMessage);
+    }
+  }
 
-      // Start sending chunks
-      transfer.status = 'transferring';
-      this.callbacks.onTransferUpdate(transfer);
-      
-      this.sendChunks(fileId, resolve, reject);
-    });
+  private pickNextSend(): { transfer: SendingTransfer, file: Blob } | undefined {
+    // Round-robin over active files, skipping unaccepted, paused and
+    // interrupted ones, and those the receiver has yet to catch up with
+    for (let n = 0; n < this.activeSends.length; n++) {
+      const index = (this.roundRobinIndex + n) % this.activeSends.length;
+      const data = this.sendingTransfers.get(this.activeSends[index]);
+      if (data && data.transfer.status === 'transferring' && !this.awaitingResync.has(data.transfer.id)
+        && this.hasSendWindow(data.transfer)) {
+        this.roundRobinIndex = index + 1;
+        return data;
+      }
+    }
+    return undefined;
   }
 
-  private sendChunks(fileId: string, onComplete: () => void, onError: (error: Error) => void): void {
-    const data = this.sendingTransfers.get(fileId);
-    if (!data) {
-      onError(new Error('Transfer data not found'));
-      return;
+  // Whether the file is less than a receive window ahead of what the
+  // receiver reported written; its next 'chunks-written' reopens it
+  private hasSendWindow(transfer: SendingTransfer): boolean {
+    const sent = transfer.currentChunkIndex > 0 ? transfer.chunkEnds[transfer.currentChunkIndex - 1] : 0;
+    const confirmed = transfer.confirmedChunks > 0 ? transfer.chunkEnds[transfer.confirmedChunks - 1] : 0;
+    return sent - confirmed < P2P_CONFIG.receiveWindow;
+  }
+
+  private finishSend(fileId: string): void {
+    this.activeSends = this.activeSends.filter(id => id !== fileId);
+    this.sendQueue = this.sendQueue.filter(id => id !== fileId);
+    this.fileHashers.delete(fileId);
+  }
+
+  private fileHasher(fileId: string): FileHasher {
+    let hasher = this.fileHashers.get(fileId);
+    if (!hasher) {
+      hasher = new FileHasher(P2P_CONFIG.receiveWindow);
+      this.fileHashers.set(fileId, hasher);
     }
+    return hasher;
+  }
 
-    const { transfer, file } = data;
-    const chunkSize = P2P_CONFIG.chunkSize;
-    const maxBufferedAmount = P2P_CONFIG.maxBufferedAmount;
+  // A DataChannel drained below its low-water mark
+  handleBufferedAmountLow(): void {
+    this.pumpSendQueue();
+  }
 
-    const sendNextChunk = async () => {
-      if (transfer.status !== 'transferring') {
-        return;
+  private maxChunkSize(): number {
+    const messageLimit = this.webrtc.getMaxMessageSize() - CHUNK_HEADER_SIZE - MESSAGE_OVERHEAD;
+    return Math.max(P2P_CONFIG.minChunkSize, Math.min(P2P_CONFIG.maxChunkSize, messageLimit));
+  }
+
+  // Re-sizes chunks once per window from the bytes the channels actually
+  // took, so a fast link gets fewer, larger messages and a slow one keeps
+  // progress updates frequent
+  private measureThroughput(bytes: number): void {
+    const now = Date.now();
+    if (this.windowStart === 0) {
+      this.windowStart = now;
+    }
+    this.windowBytes += bytes;
+
+    const elapsed = now - this.windowStart;
+    if (elapsed < THROUGHPUT_WINDOW_MS) return;
+
+    const throughput = (this.windowBytes / elapsed) * 1000;
+    const target = Math.round(throughput / TARGET_CHUNKS_PER_SECOND / 1024) * 1024;
+    this.chunkSize = Math.min(Math.max(target, P2P_CONFIG.minChunkSize), this.maxChunkSize());
+    this.windowStart = now;
+    this.windowBytes = 0;
+  }
+
+  private async pumpSendQueue(): Promise<void> {
+    if (this.pumping || this.sendingBlocked) return;
+    this.pumping = true;
+
+    try {
+      // A dropped channel stops the pump; handleChannelOpen restarts it
+      while (this.webrtc.isConnected() && !this.sendingBlocked) {
+        await this.admitQueuedSends();
+
+        const next = this.pickNextSend();
+        if (!next) {
+          // Idle time must not count against the next throughput window
+          this.windowStart = 0;
+          this.windowBytes = 0;
+          break;
+        }
+
+        // Check backpressure (each channel's buffer is shared by every active
+        // file); handleBufferedAmountLow restarts the pump once one drains
+        const channel = this.pickChunkChannel();
+        if (channel === null) break;
+
+        await this.sendNextChunk(next.transfer, next.file, channel);
       }
+    } finally {
+      this.pumping = false;
+    }
+  }
 
-      // Check backpressure
-      if (this.webrtc.getBufferedAmount() > maxBufferedAmount) {
-        // Wait and retry
-        setTimeout(() => sendNextChunk(), 50);
-        return;
+  // The open DataChannel with the least data queued, or null when every one
+  // is over the backpressure threshold. Successive chunks of a file thus
+  // spread over all channels, and a slow channel simply gets fewer of them.
+  private pickChunkChannel(): number | null {
+    let best: number | null = null;
+    let lowest = P2P_CONFIG.maxBufferedAmount;
+
+    for (const channel of this.webrtc.getChunkChannels()) {
+      const buffered = this.webrtc.getBufferedAmount(channel);
+      if (buffered <= lowest) {
+        best = channel;
+        lowest = buffered;
       }
+    }
+    return best;
+  }
 
-      const start = transfer.currentChunkIndex * chunkSize;
-      const end = Math.min(start + chunkSize, file.size);
+  private async sendNextChunk(transfer: SendingTransfer, file: Blob, channel: number): Promise<void> {
+    const fileId = transfer.id;
+    const index = transfer.currentChunkIndex;
+    const start = index > 0 ? transfer.chunkEnds[index - 1] : 0;
+    // Chunks sent before keep their boundaries; new ones take the current size
+    const end = index < transfer.chunkEnds.length
+      ? transfer.chunkEnds[index]
+      : Math.min(start + Math.min(this.chunkSize, this.maxChunkSize()), file.size);
 
+    try {
       if (start >= file.size) {
-        // All chunks sent
-        transfer.status = 'completed';
+        // All chunks sent; each byte was hashed as its chunk was read (or
+        // before a resync, when this completion is repeated)
+        const fileHash = transfer.fileHash ?? this.fileHasher(fileId).digest(file.size);
+        if (fileHash === null) {
+          this.failTransfer(fileId, 'Could not hash the whole file');
+          return;
+        }
         transfer.bytesTransferred = file.size;
+        transfer.fileHash = fileHash;
+        this.finishSend(fileId);
+        this.awaitingVerification.add(fileId);
         this.callbacks.onTransferUpdate(transfer);
-        this.callbacks.onTransferComplete(transfer);
         
-        // Send completion message
+        // Send completion message; the receiver checks the hash against its own
+        // and answers with 'transfer-verified'
         const completeMessage: FileControlMessage = {
           type: 'transfer-complete',
-          fileId
+          fileId,
+          fileHash,
+          totalChunks: transfer.chunkEnds.length
         };
         this.webrtc.sendControlMessage(completeMessage);
-        
-        // Resolve the promise to allow next file to send
-        onComplete();
         return;
       }
 
-      try {
-        const chunk = file.slice(start, end);
-        const arrayBuffer = await chunk.arrayBuffer();
-        
-        // Send chunk
-        this.webrtc.sendChunk(arrayBuffer);
-        
-        // Update progress
-        transfer.currentChunkIndex++;
-        transfer.bytesTransferred = end;
-        
-        const now = Date.now();
-        const elapsed = (now - transfer.startTime) / 1000; // seconds
-        transfer.speed = elapsed > 0 ? transfer.bytesTransferred / elapsed : 0;
-        
-        const remaining = file.size - transfer.bytesTransferred;
-        transfer.eta = transfer.speed > 0 ? remaining / transfer.speed : 0;
-        transfer.lastUpdateTime = now;
-        
-        this.callbacks.onTransferUpdate(transfer);
-        
-        // Send next chunk
-        setTimeout(() => sendNextChunk(), 0);
-      } catch (error) {
-        console.error('[FileTransfer] Error sending chunk:', error);
-        transfer.status = 'error';
-        transfer.error = 'Failed to send chunk';
-        this.callbacks.onTransferUpdate(transfer);
-        this.callbacks.onError(fileId, 'Failed to send chunk');
-        onError(error as Error);
+      const chunk = file.slice(start, end);
+      const arrayBuffer = await chunk.arrayBuffer();
+      const hash = await hashChunk(arrayBuffer);
+      // Read in order, and rewound only to chunks already hashed; the whole
+      // file was, once its hash is known
+      if (transfer.fileHash === undefined) {
+        this.fileHasher(fileId).update(start, arrayBuffer);
       }
-    };
+      const codec = transfer.metadata.compression;
+      const payload = codec ? await compressChunk(arrayBuffer, codec) : arrayBuffer;
 
-    // Start sending
-    sendNextChunk();
+      // Cancelled while the chunk was being read
+      if (transfer.status === 'cancelled') {
+        return;
+      }
+      
+      // Send chunk, framed so the receiver can place and verify it by index
+      // (advancing first, as a resync may rewind us while the chunk is sealed)
+      transfer.chunkHashes[index] = hash;
+      transfer.chunkEnds[index] = end;
+      // Progress counts file bytes, not the (possibly smaller) bytes on the wire
+      transfer.currentChunkIndex = index + 1;
+      transfer.bytesTransferred = end;
+      await this.webrtc.sendChunk(
+        encodeChunkFrame(transfer.metadata.streamId, index, start, hash, payload),
+        channel
+      );
+      this.measureThroughput(payload.byteLength);
+      
+      const now = Date.now();
+      const elapsed = (now - transfer.startTime) / 1000; // seconds
+      transfer.speed = elapsed > 0 ? transfer.bytesTransferred / elapsed : 0;
+      
+      const remaining = file.size - transfer.bytesTransferred;
+      transfer.eta = transfer.speed > 0 ? remaining / transfer.speed : 0;
+      transfer.lastUpdateTime = now;
+      
+      this.callbacks.onTransferUpdate(transfer);
+    } catch (error) {
+      console.error('[FileTransfer] Error sending chunk:', error);
+      this.failTransfer(fileId, 'Failed to send chunk');
+    }
   }
 
   handleControlMessage(message: FileControlMessage): void {
     switch (message.type) {
+      case 'capabilities':
+        this.peerCodecs = knownCodecs(message.compression);
+        break;
+
       case 'file-metadata':
         this.handleFileMetadata(message.metadata);
         break;
       
+      case 'transfer-accept':
+        this.handleTransferAccept(message.fileId);
+        break;
+
+      case 'transfer-decline':
+        this.handleTransferDecline(message.fileId);
+        break;
+
+      case 'transfer-resync':
+        this.handleTransferResync(message.metadata);
+        break;
+
+      case 'chunk-ack':
+        this.handleChunkAck(message.fileId, message.chunkIndex);
+        break;
+
+      case 'chunks-written':
+        this.handleChunksWritten(message.fileId, message.chunkIndex);
+        break;
+
       case 'transfer-complete':
-        this.handleTransferComplete(message.fileId);
+        this.handleTransferComplete(message.fileId, message.fileHash, message.totalChunks);
+        break;
+
+      case 'transfer-verified':
+        this.handleTransferVerified(message.fileId);
+        break;
+
+      case 'transfer-error':
+        this.handleTransferError(message.fileId, message.error);
         break;
       
       case 'transfer-cancel':
         this.handleTransferCancel(message.fileId);
         break;
+
+      case 'transfer-pause':
+        this.handleTransferPause(message.fileId);
+        break;
+
+      case 'transfer-resume':
+        this.handleTransferResume(message.fileId);
+        break;
     }
   }
 
@@ -183,71 +434,562 @@ export class FileTransferManager {
       id: metadata.id,
       direction: 'receiving',
       metadata,
-      status: 'transferring',
+      status: 'pending',
       bytesTransferred: 0,
       totalBytes: metadata.size,
       speed: 0,
       eta: 0,
       startTime: Date.now(),
       lastUpdateTime: Date.now(),
-      receivedChunks: [],
-      expectedChunks: metadata.totalChunks
+      chunkHashes: [],
+      chunkStarts: [],
+      chunkEnds: [],
+      writtenChunks: 0,
+      reportedChunks: 0,
+      peerId: this.webrtc.peerId
     };
 
     this.receivingTransfers.set(metadata.id, transfer);
+    this.receivingStreams.set(metadata.streamId, metadata.id);
     this.callbacks.onTransferUpdate(transfer);
+
+    // Otherwise the UI asks the user through acceptTransfer/declineTransfer
+    if (this.autoAccept) {
+      this.acceptTransfer(metadata.id);
+    }
   }
 
-  handleChunk(chunk: ArrayBuffer): void {
-    // Find the active receiving transfer (should only be one due to sequential sending)
-    // Files are sent one at a time, so we process the first active transfer
-    let activeTransfer: ReceivingTransfer | null = null;
-    
-    for (const transfer of this.receivingTransfers.values()) {
-      if (transfer.status === 'transferring') {
-        activeTransfer = transfer;
-        break;
+  acceptTransfer(fileId: string): void {
+    const transfer = this.receivingTransfers.get(fileId);
+    if (!transfer || transfer.status !== 'pending') return;
+
+    transfer.status = 'transferring';
+    transfer.startTime = Date.now();
+    transfer.lastUpdateTime = transfer.startTime;
+    this.callbacks.onTransferUpdate(transfer);
+
+    // Chunks queue up behind the sink being opened
+    this.verificationChains.set(fileId, this.openReceiveSink(transfer));
+
+    const message: FileControlMessage = {
+      type: 'transfer-accept',
+      fileId
+    };
+    this.webrtc.sendControlMessage(message);
+  }
+
+  declineTransfer(fileId: string): void {
+    const transfer = this.receivingTransfers.get(fileId);
+    if (!transfer || transfer.status !== 'pending') return;
+
+    transfer.status = 'declined';
+    this.receivingTransfers.delete(fileId);
+    this.receivingStreams.delete(transfer.metadata.streamId);
+    this.callbacks.onTransferUpdate(transfer);
+
+    const message: FileControlMessage = {
+      type: 'transfer-decline',
+      fileId
+    };
+    this.webrtc.sendControlMessage(message);
+  }
+
+  // Accepts every pending offer and any the current peer sends later
+  acceptAllFromPeer(): void {
+    this.autoAccept = true;
+    for (const transfer of Array.from(this.receivingTransfers.values())) {
+      if (transfer.status === 'pending') {
+        this.acceptTransfer(transfer.id);
       }
     }
-    
-    if (!activeTransfer) {
-      console.warn('[FileTransfer] Received chunk but no active transfer');
+  }
+
+  // Called when the peer leaves; the next one has to be trusted anew
+  revokeAutoAccept(): void {
+    this.autoAccept = false;
+  }
+
+  private handleTransferAccept(fileId: string): void {
+    const data = this.sendingTransfers.get(fileId);
+    if (!data || data.transfer.status !== 'pending') return;
+
+    const { transfer } = data;
+    transfer.status = 'transferring';
+    transfer.startTime = Date.now();
+    transfer.lastUpdateTime = transfer.startTime;
+    // Nothing has been sent yet, so there is no offset to agree on
+    this.awaitingResync.delete(fileId);
+    this.callbacks.onTransferUpdate(transfer);
+    this.pumpSendQueue();
+  }
+
+  private handleTransferDecline(fileId: string): void {
+    const data = this.sendingTransfers.get(fileId);
+    if (!data || data.transfer.status !== 'pending') return;
+
+    data.transfer.status = 'declined';
+    this.awaitingResync.delete(fileId);
+    this.finishSend(fileId);
+    this.callbacks.onTransferUpdate(data.transfer);
+    // The slot goes to the next queued file
+    this.pumpSendQueue();
+  }
+
+  private async openReceiveSink(transfer: ReceivingTransfer): Promise<void> {
+    try {
+      const sink = await createReceiveSink(
+        transfer.metadata,
+        this.downloadDirectory,
+        P2P_CONFIG.maxInMemoryReceiveSize,
+        () => {
+          // The user cancelled the browser download; the rest has nowhere to go
+          if (transfer.status === 'transferring' || transfer.status === 'paused') {
+            this.cancelTransfer(transfer.id);
+          }
+        }
+      );
+
+      // Cancelled or failed while the sink was being opened
+      if (transfer.status !== 'transferring' && transfer.status !== 'paused') {
+        await sink.abort();
+        return;
+      }
+
+      this.receiveSinks.set(transfer.id, sink);
+      transfer.sink = sink.kind;
+      this.callbacks.onTransferUpdate(transfer);
+    } catch (error) {
+      console.error('[FileTransfer] Error opening receive sink:', error);
+      this.failTransfer(transfer.id, 'Could not open a destination for the file');
+    }
+  }
+
+  private releaseReceiveSink(fileId: string): void {
+    const sink = this.receiveSinks.get(fileId);
+    if (sink) {
+      this.receiveSinks.delete(fileId);
+      sink.abort().catch(error => console.warn('[FileTransfer] Error aborting sink:', error));
+    }
+  }
+
+  handleChunk(frame: ArrayBuffer): void {
+    let chunk: ChunkFrame;
+    try {
+      chunk = decodeChunkFrame(frame);
+    } catch (error) {
+      console.warn('[FileTransfer] Dropping malformed chunk frame:', error);
       return;
     }
-    
-    activeTransfer.receivedChunks.push(chunk);
-    activeTransfer.bytesTransferred += chunk.byteLength;
+
+    // Paused transfers still accept chunks: those already in flight when the
+    // pause was requested keep arriving and must not be dropped
+    const fileId = this.receivingStreams.get(chunk.streamId);
+    const transfer = fileId ? this.receivingTransfers.get(fileId) : undefined;
+    if (!transfer || (transfer.status !== 'transferring' && transfer.status !== 'paused')) {
+      console.warn(`[FileTransfer] Received chunk for unknown stream ${chunk.streamId}`);
+      return;
+    }
+
+    // Every chunk holds at least one byte
+    if (chunk.chunkIndex >= transfer.totalBytes || chunk.offset >= transfer.totalBytes) {
+      console.warn(`[FileTransfer] Chunk ${chunk.chunkIndex} out of range for ${transfer.id}`);
+      return;
+    }
+
+    // A sender that keeps to the receive window never has more than this
+    // waiting; one that does not would otherwise fill our memory
+    const queued = (this.queuedBytes.get(transfer.id) ?? 0) + chunk.data.byteLength;
+    if (queued > MAX_QUEUED_BYTES) {
+      this.failTransfer(transfer.id, 'The sender sent more than the receive window allows');
+      return;
+    }
+    this.queuedBytes.set(transfer.id, queued);
+
+    const previous = this.verificationChains.get(transfer.id) ?? Promise.resolve();
+    this.verificationChains.set(
+      transfer.id,
+      previous
+        .then(() => this.verifyChunk(transfer, chunk))
+        .catch(() => this.failTransfer(transfer.id, 'Failed to verify chunk'))
+        .finally(() => this.dequeueChunk(transfer.id, chunk.data.byteLength))
+    );
+  }
+
+  private dequeueChunk(fileId: string, bytes: number): void {
+    const queued = this.queuedBytes.get(fileId);
+    if (queued !== undefined) {
+      this.queuedBytes.set(fileId, queued - bytes);
+    }
+  }
+
+  private async verifyChunk(transfer: ReceivingTransfer, chunk: ChunkFrame): Promise<void> {
+    // Failed or cancelled while earlier chunks were being verified
+    if (transfer.status !== 'transferring' && transfer.status !== 'paused') {
+      return;
+    }
+
+    let data = chunk.data;
+    const codec = transfer.metadata.compression;
+    if (codec) {
+      try {
+        data = await decompressChunk(chunk.data, codec, P2P_CONFIG.maxChunkSize);
+      } catch (error) {
+        console.warn('[FileTransfer] Error decompressing chunk:', error);
+        this.failTransfer(transfer.id, `Chunk ${chunk.chunkIndex} could not be decompressed`);
+        return;
+      }
+    }
+
+    if (chunk.offset + data.byteLength > transfer.totalBytes) {
+      this.failTransfer(transfer.id, `Chunk ${chunk.chunkIndex} runs past the end of the file`);
+      return;
+    }
+    if (!this.fitsNeighbours(transfer, chunk.chunkIndex, chunk.offset, chunk.offset + data.byteLength)) {
+      this.failTransfer(transfer.id, `Chunk ${chunk.chunkIndex} does not line up with its neighbours`);
+      return;
+    }
+    // Chunks past the window would wait, in memory, for the ones before them
+    if (chunk.offset >= this.writtenBytes(transfer) + P2P_CONFIG.receiveWindow) {
+      this.failTransfer(transfer.id, `Chunk ${chunk.chunkIndex} arrived ahead of the receive window`);
+      return;
+    }
+
+    const hash = await hashChunk(data);
+    if (!hashesEqual(hash, chunk.hash)) {
+      this.failTransfer(transfer.id, `Chunk ${chunk.chunkIndex} failed SHA-256 verification`);
+      return;
+    }
+
+    // Chunks resent after a resync may already be here
+    if (transfer.chunkHashes[chunk.chunkIndex] === undefined) {
+      const sink = this.receiveSinks.get(transfer.id);
+      if (!sink) return;
+
+      const byteLength = data.byteLength;
+      try {
+        await sink.write(chunk.chunkIndex, chunk.offset, data);
+      } catch (error) {
+        console.error('[FileTransfer] Error writing chunk:', error);
+        this.failTransfer(transfer.id, 'Could not write the file');
+        return;
+      }
+      // Cancelled or failed while the sink caught up
+      if (transfer.status !== 'transferring' && transfer.status !== 'paused') {
+        return;
+      }
+      if (!this.fileHasher(transfer.id).update(chunk.offset, data)) {
+        this.failTransfer(transfer.id, `Chunk ${chunk.chunkIndex} arrived ahead of the receive window`);
+        return;
+      }
+      transfer.chunkHashes[chunk.chunkIndex] = hash;
+      transfer.chunkStarts[chunk.chunkIndex] = chunk.offset;
+      transfer.chunkEnds[chunk.chunkIndex] = chunk.offset + byteLength;
+      transfer.bytesTransferred += byteLength;
+      this.reportWrittenChunks(transfer);
+    }
     
     const now = Date.now();
-    const elapsed = (now - activeTransfer.startTime) / 1000;
-    activeTransfer.speed = elapsed > 0 ? activeTransfer.bytesTransferred / elapsed : 0;
+    const elapsed = (now - transfer.startTime) / 1000;
+    transfer.speed = elapsed > 0 ? transfer.bytesTransferred / elapsed : 0;
     
-    const remaining = activeTransfer.totalBytes - activeTransfer.bytesTransferred;
-    activeTransfer.eta = activeTransfer.speed > 0 ? remaining / activeTransfer.speed : 0;
-    activeTransfer.lastUpdateTime = now;
+    const remaining = transfer.totalBytes - transfer.bytesTransferred;
+    transfer.eta = transfer.speed > 0 ? remaining / transfer.speed : 0;
+    transfer.lastUpdateTime = now;
     
-    this.callbacks.onTransferUpdate(activeTransfer);
+    this.callbacks.onTransferUpdate(transfer);
+
+    const expectedHash = this.pendingCompletions.get(transfer.id);
+    if (expectedHash !== undefined && !this.isMissingChunks(transfer)) {
+      this.pendingCompletions.delete(transfer.id);
+      await this.completeTransfer(transfer, expectedHash);
+    }
   }
 
-  private handleTransferComplete(fileId: string): void {
+  // Chunk i starts where chunk i-1 ends (the first at 0), so a chunk is
+  // checked against whichever neighbours have arrived; chunks striped over
+  // several channels come in any order. A chunk already held, resent after
+  // a resync, must cover the same bytes as before.
+  private fitsNeighbours(transfer: ReceivingTransfer, index: number, start: number, end: number): boolean {
+    if (transfer.chunkHashes[index] !== undefined) {
+      return transfer.chunkStarts[index] === start && transfer.chunkEnds[index] === end;
+    }
+    if (index === 0 && start !== 0) return false;
+    if (index > 0 && transfer.chunkEnds[index - 1] !== undefined && transfer.chunkEnds[index - 1] !== start) {
+      return false;
+    }
+    const next = transfer.chunkStarts[index + 1];
+    return next === undefined || next === end;
+  }
+
+  // The frame's routing fields are authenticated too, but a frame that fails
+  // authentication still names the transfer it was aimed at
+  handleChunkAuthFailure(streamId: number, chunkIndex: number): void {
+    const fileId = this.receivingStreams.get(streamId);
+    if (!fileId) {
+      console.warn(`[FileTransfer] Unauthenticated chunk for unknown stream ${streamId}`);
+      return;
+    }
+    this.failTransfer(fileId, `Chunk ${chunkIndex} failed authentication`);
+  }
+
+  // Index of the first chunk the receiver does not hold yet
+  private getFirstMissingChunk(transfer: ReceivingTransfer): number {
+    while (transfer.chunkHashes[transfer.writtenChunks] !== undefined) {
+      transfer.writtenChunks++;
+    }
+    return transfer.writtenChunks;
+  }
+
+  // End of the part of the file written without gaps
+  private writtenBytes(transfer: ReceivingTransfer): number {
+    const written = this.getFirstMissingChunk(transfer);
+    return written > 0 ? transfer.chunkEnds[written - 1] : 0;
+  }
+
+  // Tells the sender how far the file is written each time another quarter
+  // of the receive window is, which lets it send that much more
+  private reportWrittenChunks(transfer: ReceivingTransfer): void {
+    const writtenEnd = this.writtenBytes(transfer);
+    const reportedEnd = transfer.reportedChunks > 0 ? transfer.chunkEnds[transfer.reportedChunks - 1] : 0;
+    if (writtenEnd - reportedEnd < P2P_CONFIG.receiveWindow / 4) return;
+
+    transfer.reportedChunks = transfer.writtenChunks;
+    const message: FileControlMessage = {
+      type: 'chunks-written',
+      fileId: transfer.id,
+      chunkIndex: transfer.writtenChunks
+    };
+    this.webrtc.sendControlMessage(message);
+  }
+
+  // Only meaningful once 'transfer-complete' has told us the chunk count
+  private isMissingChunks(transfer: ReceivingTransfer): boolean {
+    return transfer.expectedChunks === undefined
+      || this.getFirstMissingChunk(transfer) < transfer.expectedChunks;
+  }
+
+  private handleTransferResync(metadata: FileMetadata): void {
+    // The original metadata may have been lost along with the old channel
+    if (!this.receivingTransfers.has(metadata.id)) {
+      this.handleFileMetadata(metadata);
+    }
+
+    // Not accepted yet: the sender keeps waiting for our answer instead
+    const transfer = this.receivingTransfers.get(metadata.id)!;
+    if (transfer.status === 'pending') return;
+
+    const ackMessage: FileControlMessage = {
+      type: 'chunk-ack',
+      fileId: metadata.id,
+      chunkIndex: this.getFirstMissingChunk(transfer)
+    };
+    this.webrtc.sendControlMessage(ackMessage);
+  }
+
+  private handleChunkAck(fileId: string, chunkIndex: number): void {
+    const data = this.sendingTransfers.get(fileId);
+    if (!data || !this.awaitingResync.has(fileId)) return;
+
+    const { transfer } = data;
+    this.awaitingResync.delete(fileId);
+
+    // Our copy of the acceptance was lost with the old channel
+    if (transfer.status === 'pending') {
+      transfer.status = 'transferring';
+      transfer.startTime = Date.now();
+    }
+
+    // Rewind to what the receiver actually holds; chunks that were in flight
+    // when the channel dropped are sent again
+    transfer.currentChunkIndex = Math.min(chunkIndex, transfer.chunkEnds.length);
+    transfer.confirmedChunks = Math.max(transfer.confirmedChunks, transfer.currentChunkIndex);
+    transfer.bytesTransferred = transfer.currentChunkIndex > 0
+      ? transfer.chunkEnds[transfer.currentChunkIndex - 1]
+      : 0;
+    this.callbacks.onTransferUpdate(transfer);
+
+    this.pumpSendQueue();
+  }
+
+  private handleChunksWritten(fileId: string, chunkIndex: number): void {
+    const data = this.sendingTransfers.get(fileId);
+    if (!data) return;
+
+    const { transfer } = data;
+    transfer.confirmedChunks = Math.max(transfer.confirmedChunks, Math.min(chunkIndex, transfer.chunkEnds.length));
+    // The file may have been waiting on the receiver
+    this.pumpSendQueue();
+  }
+
+  private async handleTransferComplete(fileId: string, expectedHash: string, totalChunks: number): Promise<void> {
     const transfer = this.receivingTransfers.get(fileId);
     if (!transfer) return;
+    // A resync after the final chunk makes the sender repeat the completion
+    // when our answer to it was lost
+    if (transfer.status === 'completed') {
+      this.sendTransferVerified(fileId);
+      return;
+    }
+
+    // Let every chunk that arrived before this message finish verifying
+    await this.verificationChains.get(fileId);
+    this.verificationChains.delete(fileId);
+    if (transfer.status !== 'transferring' && transfer.status !== 'paused') return;
+
+    transfer.expectedChunks = totalChunks;
+    if (transfer.chunkHashes.length > totalChunks) {
+      this.failTransfer(fileId, 'Received more chunks than the sender sent');
+      return;
+    }
+
+    // Chunks striped over other channels can still be on their way; the last
+    // of them to be verified finishes the transfer
+    if (this.isMissingChunks(transfer)) {
+      this.pendingCompletions.set(fileId, expectedHash);
+      return;
+    }
+
+    await this.completeTransfer(transfer, expectedHash);
+  }
+
+  private async completeTransfer(transfer: ReceivingTransfer, expectedHash: string): Promise<void> {
+    const fileId = transfer.id;
+    const fileHash = this.fileHasher(fileId).digest(transfer.totalBytes);
+    this.fileHashers.delete(fileId);
+    this.queuedBytes.delete(fileId);
+    // Every chunk is in place and each meets the next, so only the last can
+    // stop short of the end
+    if (fileHash === null) {
+      this.failTransfer(fileId, 'Chunks do not cover the whole file');
+      return;
+    }
+    if (fileHash !== expectedHash) {
+      this.failTransfer(fileId, 'File hash does not match the sender\'s SHA-256');
+      return;
+    }
 
-    // Assemble chunks into blob
-    const blob = new Blob(transfer.receivedChunks, { type: transfer.metadata.type });
+    this.receivingStreams.delete(transfer.metadata.streamId);
+
+    // Finish the file; only sinks that can read it back return a blob
+    let blob: Blob | undefined;
+    try {
+      const sink = this.receiveSinks.get(fileId);
+      this.receiveSinks.delete(fileId);
+      blob = await sink?.close();
+    } catch (error) {
+      console.error('[FileTransfer] Error closing receive sink:', error);
+      this.failTransfer(fileId, 'Could not finish writing the file');
+      return;
+    }
     
+    transfer.fileHash = fileHash;
     transfer.status = 'completed';
     transfer.bytesTransferred = transfer.totalBytes;
+    this.sendTransferVerified(fileId);
     this.callbacks.onTransferUpdate(transfer);
     this.callbacks.onTransferComplete(transfer, blob);
   }
 
+  private sendTransferVerified(fileId: string): void {
+    const message: FileControlMessage = {
+      type: 'transfer-verified',
+      fileId
+    };
+    this.webrtc.sendControlMessage(message);
+  }
+
+  // The receiver holds the whole file and it matched our hash
+  private handleTransferVerified(fileId: string): void {
+    const data = this.sendingTransfers.get(fileId);
+    if (!data || !this.awaitingVerification.delete(fileId)) return;
+
+    const { transfer } = data;
+    transfer.status = 'completed';
+    this.callbacks.onTransferUpdate(transfer);
+    this.callbacks.onTransferComplete(transfer);
+  }
+
+  // Marks a transfer as failed on this side and tells the peer why
+  private failTransfer(fileId: string, error: string): void {
+    const message: FileControlMessage = {
+      type: 'transfer-error',
+      fileId,
+      error
+    };
+    this.webrtc.sendControlMessage(message);
+    this.handleTransferError(fileId, error);
+  }
+
+  private handleTransferError(fileId: string, error: string): void {
+    const sending = this.sendingTransfers.get(fileId);
+    if (sending && sending.transfer.status !== 'error') {
+      sending.transfer.status = 'error';
+      sending.transfer.error = error;
+      this.awaitingResync.delete(fileId);
+      this.awaitingVerification.delete(fileId);
+      this.finishSend(fileId);
+      this.callbacks.onTransferUpdate(sending.transfer);
+      this.callbacks.onError(fileId, error);
+      this.pumpSendQueue();
+    }
+
+    const receiving = this.receivingTransfers.get(fileId);
+    if (receiving && receiving.status !== 'error') {
+      receiving.status = 'error';
+      receiving.error = error;
+      this.receivingStreams.delete(receiving.metadata.streamId);
+      this.verificationChains.delete(fileId);
+      this.queuedBytes.delete(fileId);
+      this.pendingCompletions.delete(fileId);
+      this.fileHashers.delete(fileId);
+      this.releaseReceiveSink(fileId);
+      this.callbacks.onTransferUpdate(receiving);
+      this.callbacks.onError(fileId, error);
+    }
+  }
+
+  private handleTransferPause(fileId: string): void {
+    const sending = this.sendingTransfers.get(fileId);
+    if (sending && sending.transfer.status === 'transferring') {
+      // The send loop sees the new status before its next chunk and stops
+      sending.transfer.status = 'paused';
+      this.callbacks.onTransferUpdate(sending.transfer);
+    }
+
+    const receiving = this.receivingTransfers.get(fileId);
+    if (receiving && receiving.status === 'transferring') {
+      receiving.status = 'paused';
+      this.callbacks.onTransferUpdate(receiving);
+    }
+  }
+
+  private handleTransferResume(fileId: string): void {
+    const sending = this.sendingTransfers.get(fileId);
+    if (sending && sending.transfer.status === 'paused') {
+      // The scheduler picks it up again from currentChunkIndex
+      sending.transfer.status = 'transferring';
+      this.callbacks.onTransferUpdate(sending.transfer);
+      this.pumpSendQueue();
+    }
+
+    const receiving = this.receivingTransfers.get(fileId);
+    if (receiving && receiving.status === 'paused') {
+      receiving.status = 'transferring';
+      this.callbacks.onTransferUpdate(receiving);
+    }
+  }
+
   private handleTransferCancel(fileId: string): void {
     const sending = this.sendingTransfers.get(fileId);
     if (sending) {
       sending.transfer.status = 'cancelled';
       this.callbacks.onTransferUpdate(sending.transfer);
       this.sendingTransfers.delete(fileId);
+      this.awaitingResync.delete(fileId);
+      this.awaitingVerification.delete(fileId);
+      this.finishSend(fileId);
+      // A slot may have freed up for the next queued file
+      this.pumpSendQueue();
     }
 
     const receiving = this.receivingTransfers.get(fileId);
@@ -255,9 +997,100 @@ export class FileTransferManager {
       receiving.status = 'cancelled';
       this.callbacks.onTransferUpdate(receiving);
       this.receivingTransfers.delete(fileId);
+      this.receivingStreams.delete(receiving.metadata.streamId);
+      this.verificationChains.delete(fileId);
+      this.queuedBytes.delete(fileId);
+      this.pendingCompletions.delete(fileId);
+      this.fileHashers.delete(fileId);
+      this.releaseReceiveSink(fileId);
+    }
+  }
+
+  handleChannelClose(): void {
+    // Files that may not have reached the receiver whole, their last chunks
+    // or its 'transfer-verified' lost with the channel, are sent on again
+    for (const fileId of this.awaitingVerification) {
+      this.activeSends.push(fileId);
+    }
+    this.awaitingVerification.clear();
+
+    // Every file already offered to the receiver has to confirm its offset
+    // (or its acceptance) before it may continue on the next channel
+    for (const fileId of this.activeSends) {
+      this.awaitingResync.add(fileId);
+    }
+    // The peer announces its capabilities again on the next channel
+    this.peerCodecs = [];
+
+    // The sender resends the chunks these are missing after the resync, and
+    // then the completion
+    this.pendingCompletions.clear();
+  }
+
+  handleChannelOpen(): void {
+    const capabilitiesMessage: FileControlMessage = {
+      type: 'capabilities',
+      compression: supportedCodecs()
+    };
+    this.webrtc.sendControlMessage(capabilitiesMessage);
+
+    for (const fileId of this.awaitingResync) {
+      const data = this.sendingTransfers.get(fileId);
+      if (!data) {
+        this.awaitingResync.delete(fileId);
+        continue;
+      }
+
+      const resyncMessage: FileControlMessage = {
+        type: 'transfer-resync',
+        metadata: data.transfer.metadata
+      };
+      this.webrtc.sendControlMessage(resyncMessage);
+    }
+
+    // Files still waiting in the queue do not need a resync
+    this.pumpSendQueue();
+  }
+
+  // The connection to the peer is gone for good: nothing queued for it or
+  // still in flight either way can finish
+  handleConnectionLost(): void {
+    const error = 'Lost the connection to the peer';
+    // Failed sends would otherwise start the next queued file
+    this.sendQueue = [];
+    const unfinished = (status: TransferStatus) =>
+      status === 'pending' || status === 'transferring' || status === 'paused';
+
+    for (const [fileId, data] of Array.from(this.sendingTransfers)) {
+      if (unfinished(data.transfer.status)) {
+        this.handleTransferError(fileId, error);
+      }
+    }
+    for (const [fileId, transfer] of Array.from(this.receivingTransfers)) {
+      if (unfinished(transfer.status)) {
+        this.handleTransferError(fileId, error);
+      }
     }
   }
 
+  pauseTransfer(fileId: string): void {
+    const message: FileControlMessage = {
+      type: 'transfer-pause',
+      fileId
+    };
+    this.webrtc.sendControlMessage(message);
+    this.handleTransferPause(fileId);
+  }
+
+  resumeTransfer(fileId: string): void {
+    const message: FileControlMessage = {
+      type: 'transfer-resume',
+      fileId
+    };
+    this.webrtc.sendControlMessage(message);
+    this.handleTransferResume(fileId);
+  }
+
   cancelTransfer(fileId: string): void {
     const message: FileControlMessage = {
       type: 'transfer-cancel',
@@ -268,13 +1101,23 @@ export class FileTransferManager {
   }
 
   cleanup(): void {
-    // Clear all intervals
-    for (const intervalId of this.sendingIntervals.values()) {
-      clearInterval(intervalId);
-    }
-    this.sendingIntervals.clear();
+    // Stop the send scheduler
+    this.sendQueue = [];
+    this.activeSends = [];
+    this.awaitingResync.clear();
+    this.awaitingVerification.clear();
+    this.peerCodecs = [];
     
     this.sendingTransfers.clear();
     this.receivingTransfers.clear();
+    this.receivingStreams.clear();
+    this.verificationChains.clear();
+    this.queuedBytes.clear();
+    this.pendingCompletions.clear();
+    this.fileHashers.clear();
+
+    for (const fileId of Array.from(this.receiveSinks.keys())) {
+      this.releaseReceiveSink(fileId);
+    }
   }
 }
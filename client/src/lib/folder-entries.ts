@@ -0,0 +1,87 @@
+// Turns what the user dropped or picked into a flat list of entries that keep
+// their folder structure. Files carry their path relative to the dropped
+// folder; empty directories are listed explicitly so they survive the trip.
+export type SelectedEntry =
+  | { kind: 'file', file: File, relativePath: string }
+  | { kind: 'directory', relativePath: string };
+
+// Wraps plain files (no folder structure) as entries
+export function entriesFromFiles(files: File[]): SelectedEntry[] {
+  return files.map(file => ({
+    kind: 'file' as const,
+    file,
+    // Set when the file came from an <input webkitdirectory>
+    relativePath: file.webkitRelativePath || file.name
+  }));
+}
+
+// Must be called synchronously inside the drop handler: DataTransfer items
+// are no longer readable once the event has been dispatched
+export function collectDroppedEntries(dataTransfer: DataTransfer): Promise<SelectedEntry[]> {
+  const roots: FileSystemEntry[] = [];
+  for (const item of Array.from(dataTransfer.items)) {
+    const entry = item.kind === 'file' ? item.webkitGetAsEntry() : null;
+    if (entry) {
+      roots.push(entry);
+    }
+  }
+
+  // Browsers without the entries API still give us the flat file list
+  if (roots.length === 0) {
+    return Promise.resolve(entriesFromFiles(Array.from(dataTransfer.files)));
+  }
+
+  return (async () => {
+    const entries: SelectedEntry[] = [];
+    for (const root of roots) {
+      await walkEntry(root, entries);
+    }
+    return entries;
+  })();
+}
+
+async function walkEntry(entry: FileSystemEntry, entries: SelectedEntry[]): Promise<void> {
+  const relativePath = entry.fullPath.replace(/^\/+/, '');
+
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    entries.push({ kind: 'file', file, relativePath });
+    return;
+  }
+
+  if (entry.isDirectory) {
+    const children = await readAllChildren(entry as FileSystemDirectoryEntry);
+    if (children.length === 0) {
+      entries.push({ kind: 'directory', relativePath });
+    }
+    for (const child of children) {
+      await walkEntry(child, entries);
+    }
+  }
+}
+
+async function readAllChildren(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const children: FileSystemEntry[] = [];
+
+  // readEntries returns results in batches until it yields an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject)
+    );
+    if (batch.length === 0) break;
+    children.push(...batch);
+  }
+
+  return children;
+}
+
+// Splits a path received from the peer into safe segments, dropping empty,
+// "." and ".." parts so it can never point outside the chosen folder
+export function splitRelativePath(relativePath: string): string[] {
+  return relativePath
+    .split(/[\\/]+/)
+    .filter(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash, randomBytes } from 'node:crypto';
+import { Sha256, FileHasher, toHex } from './integrity';
+
+function sha256(data: Uint8Array): string {
+  const sha = new Sha256();
+  sha.update(data);
+  return toHex(sha.digest());
+}
+
+function pieces(data: Buffer, sizes: number[]): { offset: number, data: ArrayBuffer }[] {
+  const result: { offset: number, data: ArrayBuffer }[] = [];
+  for (let offset = 0, i = 0; offset < data.length; i++) {
+    const end = Math.min(offset + sizes[i % sizes.length], data.length);
+    result.push({ offset, data: new Uint8Array(data.subarray(offset, end)).buffer });
+    offset = end;
+  }
+  return result;
+}
+
+test('Sha256 matches the FIPS 180-4 test vectors', () => {
+  const encoder = new TextEncoder();
+  assert.equal(sha256(new Uint8Array(0)),
+    'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  assert.equal(sha256(encoder.encode('abc')),
+    'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  assert.equal(sha256(encoder.encode('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')),
+    '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  assert.equal(sha256(new Uint8Array(1000000).fill(0x61)),
+    'cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0');
+});
+
+test('Sha256 gives the same digest however the input is split', () => {
+  for (const length of [55, 56, 63, 64, 65, 119, 120, 1000]) {
+    const data = randomBytes(length);
+    const sha = new Sha256();
+    for (let offset = 0; offset < length; offset += 7) {
+      sha.update(data.subarray(offset, offset + 7));
+    }
+    assert.equal(toHex(sha.digest()), createHash('sha256').update(data).digest('hex'), `length ${length}`);
+  }
+});
+
+test('FileHasher hashes pieces given out of order', () => {
+  const data = randomBytes(100000);
+  const hasher = new FileHasher(data.length);
+  for (const piece of pieces(data, [4096, 1000, 16384]).reverse()) {
+    assert.equal(hasher.update(piece.offset, piece.data), true);
+  }
+  assert.equal(hasher.digest(data.length), createHash('sha256').update(data).digest('hex'));
+});
+
+test('FileHasher skips pieces it has already hashed or holds', () => {
+  const data = randomBytes(50000);
+  const all = pieces(data, [3000, 7000]);
+  const hasher = new FileHasher(data.length);
+  // Later pieces twice while held, then everything again after a resync
+  for (const piece of [...all.slice(2), ...all.slice(2), ...all, ...all]) {
+    hasher.update(piece.offset, piece.data);
+  }
+  assert.equal(hasher.digest(data.length), createHash('sha256').update(data).digest('hex'));
+});
+
+test('FileHasher has no digest while a piece is missing', () => {
+  const data = randomBytes(10000);
+  const all = pieces(data, [2500]);
+  const hasher = new FileHasher(data.length);
+  for (const piece of all.filter((_, index) => index !== 1)) {
+    hasher.update(piece.offset, piece.data);
+  }
+  assert.equal(hasher.digest(data.length), null);
+});
+
+test('FileHasher refuses pieces too far ahead of what it has hashed', () => {
+  const data = randomBytes(10000);
+  const [first, second, third] = pieces(data, [2000]);
+  const hasher = new FileHasher(5000);
+  assert.equal(hasher.update(third.offset, third.data), true);
+  assert.equal(hasher.update(5000, new ArrayBuffer(10)), false);
+  hasher.update(first.offset, first.data);
+  hasher.update(second.offset, second.data);
+  // The window moves along with the hashed bytes
+  assert.equal(hasher.update(6000, new Uint8Array(data.subarray(6000, 8000)).buffer), true);
+  assert.equal(hasher.digest(8000), createHash('sha256').update(data.subarray(0, 8000)).digest('hex'));
+});
@@ -0,0 +1,177 @@
+// SHA-256 helpers for end-to-end transfer verification.
+//
+// Each chunk carries the SHA-256 of its bytes. The file hash is the plain
+// SHA-256 of the whole file, the value sha256sum prints, so it can be
+// checked against the file on disk. Web Crypto cannot hash a stream
+// incrementally, so it is computed here, as the chunks go by.
+
+export async function hashChunk(data: ArrayBuffer): Promise<ArrayBuffer> {
+  return crypto.subtle.digest('SHA-256', data);
+}
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+// SHA-256 (FIPS 180-4) fed piece by piece
+export class Sha256 {
+  private state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+  ]);
+  private block = new Uint8Array(64);
+  private blockLength = 0;
+  private totalLength = 0;
+  private schedule = new Uint32Array(64);
+
+  update(data: Uint8Array): void {
+    this.totalLength += data.length;
+    let offset = 0;
+
+    if (this.blockLength > 0) {
+      offset = Math.min(64 - this.blockLength, data.length);
+      this.block.set(data.subarray(0, offset), this.blockLength);
+      this.blockLength += offset;
+      if (this.blockLength < 64) return;
+      this.compress(this.block, 0);
+      this.blockLength = 0;
+    }
+    for (; offset + 64 <= data.length; offset += 64) {
+      this.compress(data, offset);
+    }
+    if (offset < data.length) {
+      this.block.set(data.subarray(offset));
+      this.blockLength = data.length - offset;
+    }
+  }
+
+  // Ends the hash; nothing may be added after
+  digest(): ArrayBuffer {
+    const bits = this.totalLength * 8;
+    const padding = new Uint8Array((this.blockLength < 56 ? 64 : 128) - this.blockLength);
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(bits / 0x100000000));
+    view.setUint32(padding.length - 4, bits >>> 0);
+    this.update(padding);
+
+    const digest = new DataView(new ArrayBuffer(32));
+    this.state.forEach((word, index) => digest.setUint32(index * 4, word));
+    return digest.buffer;
+  }
+
+  private compress(data: Uint8Array, offset: number): void {
+    const w = this.schedule;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const x = w[i - 15];
+      const y = w[i - 2];
+      const s0 = ((x >>> 7) | (x << 25)) ^ ((x >>> 18) | (x << 14)) ^ (x >>> 3);
+      const s1 = ((y >>> 17) | (y << 15)) ^ ((y >>> 19) | (y << 13)) ^ (y >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    const state = this.state;
+    let a = state[0], b = state[1], c = state[2], d = state[3];
+    let e = state[4], f = state[5], g = state[6], h = state[7];
+    for (let i = 0; i < 64; i++) {
+      const s1 = ((e >>> 6) | (e << 26)) ^ ((e >>> 11) | (e << 21)) ^ ((e >>> 25) | (e << 7));
+      const choice = (e & f) ^ (~e & g);
+      const t1 = (h + s1 + choice + K[i] + w[i]) | 0;
+      const s0 = ((a >>> 2) | (a << 30)) ^ ((a >>> 13) | (a << 19)) ^ ((a >>> 22) | (a << 10));
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const t2 = (s0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) | 0;
+    }
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+}
+
+// The SHA-256 of a file whose pieces are given by offset, in any order and
+// possibly more than once (chunks striped over several channels, or resent
+// after a resync). A piece is held until everything before it is hashed,
+// so only pieces starting less than maxAhead bytes past that are taken.
+export class FileHasher {
+  private sha = new Sha256();
+  private hashedBytes = 0;
+  private waiting: Map<number, Uint8Array> = new Map();
+
+  constructor(private maxAhead: number) {}
+
+  // False, holding nothing, for a piece too far ahead
+  update(offset: number, data: ArrayBuffer): boolean {
+    if (offset >= this.hashedBytes + this.maxAhead) {
+      return false;
+    }
+    if (offset > this.hashedBytes) {
+      this.waiting.set(offset, new Uint8Array(data));
+      return true;
+    }
+    this.append(offset, new Uint8Array(data));
+
+    // Whatever waited on this piece can follow now
+    for (let drained = true; drained && this.waiting.size > 0;) {
+      drained = false;
+      for (const [start, bytes] of Array.from(this.waiting)) {
+        if (start > this.hashedBytes) continue;
+        this.waiting.delete(start);
+        this.append(start, bytes);
+        drained = true;
+      }
+    }
+    return true;
+  }
+
+  // Hex digest, once every byte up to the end of the file has been given
+  digest(totalBytes: number): string | null {
+    if (this.hashedBytes !== totalBytes) return null;
+    return toHex(this.sha.digest());
+  }
+
+  private append(offset: number, bytes: Uint8Array): void {
+    const end = offset + bytes.length;
+    if (end <= this.hashedBytes) return;
+    this.sha.update(bytes.subarray(this.hashedBytes - offset));
+    this.hashedBytes = end;
+  }
+}
+
+export function hashesEqual(a: ArrayBuffer, b: ArrayBuffer): boolean {
+  if (a.byteLength !== b.byteLength) return false;
+
+  const bytesA = new Uint8Array(a);
+  const bytesB = new Uint8Array(b);
+  for (let i = 0; i < bytesA.length; i++) {
+    if (bytesA[i] !== bytesB[i]) return false;
+  }
+  return true;
+}
+
+export function toHex(data: ArrayBuffer): string {
+  return Array.from(new Uint8Array(data))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,243 @@
+import { CHUNK_ROUTING_SIZE, peerSignalSchema } from '@shared/schema';
+import type { FileControlMessage, SealedControlMessage, PeerSignal, SealedSignal } from '@shared/schema';
+
+// End-to-end encryption keyed from the share link.
+//
+// The room creator puts a random secret in the link's fragment (#k=...),
+// which browsers never send to the server. Both peers derive the same
+// AES-GCM keys from it: one for the DataChannels, so a signaling server that
+// tampers with the DTLS handshake still cannot read or forge anything sent
+// over them, and one for the signaling messages themselves, so the server
+// never sees SDP or ICE candidates.
+
+const SECRET_SIZE = 32;
+const IV_SIZE = 12;
+const CHANNEL_KEY_INFO = 'air-drop-plus/link-key/v1';
+const SIGNALING_KEY_INFO = 'air-drop-plus/signaling-key/v1';
+
+export interface LinkKeys {
+  channelKey: CryptoKey;
+  signalingKey: CryptoKey;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function generateLinkSecret(): string {
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(SECRET_SIZE)));
+}
+
+// Reads the secret from a URL fragment such as "#k=..."
+export function readLinkSecret(hash: string): string | null {
+  return new URLSearchParams(hash.replace(/^#/, '')).get('k');
+}
+
+// HKDF over the secret, salted with the room id so a key only ever applies
+// to the room it was created for
+export async function deriveLinkKeys(secret: string, roomId: string): Promise<LinkKeys> {
+  const secretBytes = fromBase64Url(secret);
+  if (secretBytes.length !== SECRET_SIZE) {
+    throw new Error('The link\'s encryption key is malformed');
+  }
+
+  const material = await crypto.subtle.importKey('raw', secretBytes, 'HKDF', false, ['deriveKey']);
+  const encoder = new TextEncoder();
+  const derive = (info: string) => crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(roomId), info: encoder.encode(info) },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+
+  return {
+    channelKey: await derive(CHANNEL_KEY_INFO),
+    signalingKey: await derive(SIGNALING_KEY_INFO)
+  };
+}
+
+// Thrown when a message fails AES-GCM authentication: it was tampered with,
+// or the peer holds a different key (or none)
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+async function seal(key: CryptoKey, plaintext: BufferSource, additionalData?: BufferSource): Promise<{ iv: Uint8Array, ciphertext: ArrayBuffer }> {
+  // A fresh random IV per message; with at most a few million messages per
+  // room the chance of a repeat is negligible
+  const iv = crypto.getRandomValues(new Uint8Array(IV_SIZE));
+  const ciphertext = await crypto.subtle.encrypt(
+    additionalData ? { name: 'AES-GCM', iv, additionalData } : { name: 'AES-GCM', iv },
+    key,
+    plaintext
+  );
+  return { iv, ciphertext };
+}
+
+async function open(key: CryptoKey, iv: Uint8Array, ciphertext: BufferSource, additionalData?: BufferSource): Promise<ArrayBuffer> {
+  try {
+    return await crypto.subtle.decrypt(
+      additionalData ? { name: 'AES-GCM', iv, additionalData } : { name: 'AES-GCM', iv },
+      key,
+      ciphertext
+    );
+  } catch {
+    throw new AuthenticationError('Message failed authentication');
+  }
+}
+
+// Both peers hold the same keys, so every sealed message names the peer it
+// is from and the one it is for: it cannot be reflected back to its sender,
+// nor passed to anyone else
+export interface SealedRoute {
+  from: string;
+  to: string;
+}
+
+// Control messages and signals are also numbered, per direction, and the
+// number is sealed with them; each must be higher than the last one opened
+// from that peer, so an old message cannot be replayed or moved ahead
+function additionalData(label: string, route: SealedRoute, seq?: number): Uint8Array {
+  const fields = [label, route.from, route.to];
+  if (seq !== undefined) fields.push(String(seq));
+  return new TextEncoder().encode(fields.join('\n'));
+}
+
+function checkSequence(seq: number, lastSeq: number): void {
+  if (seq <= lastSeq) {
+    throw new AuthenticationError('Sealed message was replayed or is out of order');
+  }
+}
+
+export async function sealControlMessage(key: CryptoKey, message: FileControlMessage, route: SealedRoute, seq: number): Promise<string> {
+  const { iv, ciphertext } = await seal(
+    key,
+    new TextEncoder().encode(JSON.stringify(message)),
+    additionalData('control', route, seq)
+  );
+  const envelope: SealedControlMessage = {
+    type: 'sealed',
+    seq,
+    iv: toBase64Url(iv),
+    data: toBase64Url(new Uint8Array(ciphertext))
+  };
+  return JSON.stringify(envelope);
+}
+
+// lastSeq is the number of the last message opened from this peer
+export async function openControlMessage(key: CryptoKey, envelope: SealedControlMessage, route: SealedRoute, lastSeq: number): Promise<FileControlMessage> {
+  let iv: Uint8Array;
+  let ciphertext: Uint8Array;
+  try {
+    iv = fromBase64Url(envelope.iv);
+    ciphertext = fromBase64Url(envelope.data);
+  } catch {
+    throw new AuthenticationError('Malformed sealed message');
+  }
+  if (!Number.isSafeInteger(envelope.seq)) {
+    throw new AuthenticationError('Malformed sealed message');
+  }
+  checkSequence(envelope.seq, lastSeq);
+
+  const plaintext = await open(key, iv, ciphertext, additionalData('control', route, envelope.seq));
+  return JSON.parse(new TextDecoder().decode(plaintext)) as FileControlMessage;
+}
+
+// The kind is in the clear for the server, to route and log by, so it is
+// bound to the ciphertext along with the route
+export async function sealSignal(key: CryptoKey, signal: PeerSignal, route: SealedRoute, seq: number): Promise<SealedSignal> {
+  const { iv, ciphertext } = await seal(
+    key,
+    new TextEncoder().encode(JSON.stringify(signal)),
+    additionalData(signal.type, route, seq)
+  );
+  return {
+    type: 'sealed-signal',
+    kind: signal.type,
+    seq,
+    iv: toBase64Url(iv),
+    data: toBase64Url(new Uint8Array(ciphertext))
+  };
+}
+
+// lastSeq is the number of the last signal opened from this peer
+export async function openSignal(key: CryptoKey, envelope: SealedSignal, route: SealedRoute, lastSeq: number): Promise<PeerSignal> {
+  let iv: Uint8Array;
+  let ciphertext: Uint8Array;
+  try {
+    iv = fromBase64Url(envelope.iv);
+    ciphertext = fromBase64Url(envelope.data);
+  } catch {
+    throw new AuthenticationError('Malformed sealed signal');
+  }
+  checkSequence(envelope.seq, lastSeq);
+
+  const plaintext = await open(key, iv, ciphertext, additionalData(envelope.kind, route, envelope.seq));
+  // Authentic, but it may still not be a signal this version understands
+  const parsed = peerSignalSchema.safeParse(JSON.parse(new TextDecoder().decode(plaintext)));
+  if (!parsed.success) {
+    throw new Error('Sealed signal is malformed');
+  }
+  const signal = parsed.data;
+  if (signal.type !== envelope.kind) {
+    throw new AuthenticationError('Sealed signal does not match its kind');
+  }
+  return signal;
+}
+
+// The frame's routing fields, which stay readable, and its direction
+function chunkAdditionalData(routing: Uint8Array, route: SealedRoute): Uint8Array {
+  const direction = additionalData('chunk', route);
+  const data = new Uint8Array(routing.length + direction.length);
+  data.set(routing, 0);
+  data.set(direction, routing.length);
+  return data;
+}
+
+// Seals everything after the routing fields of an encoded chunk frame.
+// Chunks are striped over several channels and may arrive in any order, so
+// they carry no sequence number; their index is bound instead.
+export async function sealChunkFrame(key: CryptoKey, frame: ArrayBuffer, route: SealedRoute): Promise<ArrayBuffer> {
+  const routing = new Uint8Array(frame, 0, CHUNK_ROUTING_SIZE);
+  const { iv, ciphertext } = await seal(key, new Uint8Array(frame, CHUNK_ROUTING_SIZE), chunkAdditionalData(routing, route));
+
+  const sealed = new Uint8Array(CHUNK_ROUTING_SIZE + IV_SIZE + ciphertext.byteLength);
+  sealed.set(routing, 0);
+  sealed.set(iv, CHUNK_ROUTING_SIZE);
+  sealed.set(new Uint8Array(ciphertext), CHUNK_ROUTING_SIZE + IV_SIZE);
+  return sealed.buffer;
+}
+
+// Turns a sealed frame back into the plain frame decodeChunkFrame expects
+export async function openChunkFrame(key: CryptoKey, sealed: ArrayBuffer, route: SealedRoute): Promise<ArrayBuffer> {
+  if (sealed.byteLength < CHUNK_ROUTING_SIZE + IV_SIZE) {
+    throw new AuthenticationError('Sealed chunk frame is too short');
+  }
+
+  const routing = new Uint8Array(sealed, 0, CHUNK_ROUTING_SIZE);
+  const iv = new Uint8Array(sealed, CHUNK_ROUTING_SIZE, IV_SIZE);
+  const plaintext = await open(key, iv, new Uint8Array(sealed, CHUNK_ROUTING_SIZE + IV_SIZE), chunkAdditionalData(routing, route));
+
+  const frame = new Uint8Array(CHUNK_ROUTING_SIZE + plaintext.byteLength);
+  frame.set(routing, 0);
+  frame.set(new Uint8Array(plaintext), CHUNK_ROUTING_SIZE);
+  return frame.buffer;
+}
@@ -0,0 +1,843 @@
+import type {
+  PeerSignal,
+  SessionDescription,
+  IceCandidate,
+  ConnectionState,
+  SignalingErrorCode,
+  FileControlMessage,
+  SealedControlMessage
+} from '@shared/schema';
+import { DEFAULT_P2P_CONFIG as P2P_CONFIG } from '@shared/schema';
+import {
+  sealControlMessage,
+  openControlMessage,
+  sealChunkFrame,
+  openChunkFrame,
+  AuthenticationError,
+  type LinkKeys,
+  type SealedRoute
+} from '@/lib/link-encryption';
+import { computeShortAuthString, extractFingerprints, type ShortAuthString } from '@/lib/peer-verification';
+import { RoomPasswordExchange } from '@/lib/room-password';
+
+export interface PeerConnectionCallbacks {
+  onStateChange: (state: ConnectionState) => void;
+  onDataChannelMessage: (message: FileControlMessage | ArrayBuffer) => void;
+  onDataChannelOpen: () => void;
+  onDataChannelClose: () => void;
+  onBufferedAmountLow: () => void;
+  // A chunk frame failed AES-GCM authentication; its routing fields are
+  // still readable, so the transfer it claims to belong to can be failed
+  onChunkAuthFailure: (streamId: number, chunkIndex: number) => void;
+  // Code both users compare to confirm no one sits between them; computed
+  // from the DTLS fingerprints each time the connection is (re)established
+  onVerificationCode: (code: ShortAuthString) => void;
+  onError: (error: string, code?: SignalingErrorCode) => void;
+  // Neither ICE restarts nor a fresh connection brought the peer back
+  onConnectionLost: () => void;
+}
+
+// What a peer connection shares with the rest of the session
+export interface PeerConnectionContext {
+  roomId: string;
+  // Our own id in the room; sealed messages are bound to the direction
+  // they travel in
+  localPeerId: string;
+  // From the share link; seals DataChannel messages (signals are sealed by
+  // whoever sends them through the socket)
+  linkKeys: LinkKeys | null;
+  // One DTLS certificate for the whole session, so re-established connections
+  // keep the same fingerprint and the same verification code
+  certificate: RTCCertificate | null;
+  // Read on every password check, so a retried password takes effect
+  getPassword: () => string | null;
+  // Sends to this peer through the signaling server
+  sendSignal: (signal: PeerSignal) => void;
+  // Whether signals reach the peer right now; ICE restarts wait for it
+  signalingReady: () => boolean;
+}
+
+// Carries control messages and chunks; extra channels only carry chunks
+const CONTROL_CHANNEL_LABEL = 'file';
+const STRIPE_CHANNEL_PREFIX = 'file-stripe-';
+
+// Password guesses one joining peer gets before the initiator stops answering
+const MAX_PASSWORD_ATTEMPTS = 5;
+
+// A lost connection gets this many ICE restarts, each given a while to work,
+// and then one fresh peer connection, before the peer is given up on.
+// 'disconnected' often clears up by itself, so it gets a moment first;
+// 'failed' does not.
+const MAX_ICE_RESTARTS = 3;
+const ICE_RESTART_TIMEOUT = 10 * 1000;
+const DISCONNECTED_GRACE = 3 * 1000;
+const REESTABLISH_TIMEOUT = 30 * 1000;
+
+// The connection to one other peer in the room. Peers already in the room
+// initiate towards whoever joins after them, so every pair negotiates once.
+export class PeerConnection {
+  readonly peerId: string;
+  private pc: RTCPeerConnection | null = null;
+  // The control channel first, then any stripe channels. Chunks are spread
+  // over all of them; a single SCTP stream cannot fill a high-latency link.
+  private dataChannels: RTCDataChannel[] = [];
+  private isInitiator: boolean;
+  private isReestablishing: boolean = false;
+  // Whether this lost connection was already replaced by a fresh one;
+  // cleared once connected again
+  private reestablished: boolean = false;
+  private iceRestarts: number = 0;
+  // The next ICE restart, or the end of the wait for a fresh connection
+  private recoveryTimer: ReturnType<typeof setTimeout> | null = null;
+  private context: PeerConnectionContext;
+  private callbacks: PeerConnectionCallbacks;
+  private state: ConnectionState = 'connecting';
+  // Sealing and opening are async; these keep each channel's messages in order
+  private sendChains: Map<RTCDataChannel, Promise<void>> = new Map();
+  private receiveChains: Map<RTCDataChannel, Promise<void>> = new Map();
+  // Sequence numbers of sealed control messages: the next one we send, and
+  // the last one we opened. They carry on across re-established
+  // connections, so nothing from an earlier one can be replayed.
+  private nextControlSeq: number = 0;
+  private lastControlSeq: number = -1;
+  // Offers are refused until the peer has proven it knows the room password
+  private passwordExchange: RoomPasswordExchange | null = null;
+  private passwordVerified: boolean = false;
+  private passwordAttempts: number = 0;
+  // The DTLS fingerprints the peer's password proof vouched for; its SDP
+  // must carry these and no others
+  private provenFingerprints: string[] | null = null;
+
+  constructor(peerId: string, isInitiator: boolean, context: PeerConnectionContext, callbacks: PeerConnectionCallbacks) {
+    this.peerId = peerId;
+    this.isInitiator = isInitiator;
+    this.context = context;
+    this.callbacks = callbacks;
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  private setState(state: ConnectionState): void {
+    this.state = state;
+    this.callbacks.onStateChange(state);
+  }
+
+  // Initiator: with a password, prove it first; the offer follows once the
+  // responder's confirmation checks out
+  async startNegotiation(): Promise<void> {
+    this.resetPasswordCheck();
+    const password = this.context.getPassword();
+    if (!password) {
+      await this.createPeerConnection();
+      await this.createOffer();
+      return;
+    }
+
+    const fingerprints = this.localFingerprints();
+    if (!fingerprints) return;
+
+    this.passwordAttempts++;
+    this.setState('connecting');
+    this.passwordExchange = await RoomPasswordExchange.start(password, this.context.roomId, 'initiator', fingerprints);
+    this.context.sendSignal({ type: 'pake-share', share: this.passwordExchange.share, fingerprints });
+  }
+
+  // Our certificate's fingerprints, which the password check binds; null,
+  // with the connection failed, when the session has no certificate
+  private localFingerprints(): string[] | null {
+    const certificate = this.context.certificate;
+    if (!certificate) {
+      this.failPasswordCheck('This browser could not create the certificate a password-protected room needs.');
+      return null;
+    }
+    return certificate.getFingerprints()
+      .filter(fingerprint => fingerprint.algorithm && fingerprint.value)
+      .map(fingerprint => `${fingerprint.algorithm!.toLowerCase()} ${fingerprint.value!.toUpperCase()}`);
+  }
+
+  // With a password, the SDP has to carry the certificate the peer proved
+  // it holds along with the password; otherwise whoever relayed the check
+  // put their own in
+  private isProvenPeer(sdp: string): boolean {
+    if (!this.context.getPassword()) return true;
+    const proven = this.provenFingerprints;
+    const fingerprints = extractFingerprints(sdp);
+    return !!proven && fingerprints.length > 0 && fingerprints.every(fingerprint => proven.includes(fingerprint));
+  }
+
+  async handleSignal(signal: PeerSignal): Promise<void> {
+    switch (signal.type) {
+      case 'offer':
+        // A peer that skipped the password check, or has no password
+        if (this.context.getPassword() && !this.passwordVerified) {
+          this.context.sendSignal({ type: 'pake-failed' });
+          this.failPasswordCheck('Your peer did not use a room password. Leave the password empty to join.', 'WRONG_PASSWORD');
+          break;
+        }
+        if (!this.isProvenPeer(signal.offer.sdp)) {
+          this.context.sendSignal({ type: 'pake-failed' });
+          this.failPasswordCheck('The connection offer did not come from the peer that proved the room password.', 'WRONG_PASSWORD');
+          break;
+        }
+        // An ICE restart on the connection we already have; its data
+        // channels, and the transfers on them, carry on
+        if (this.pc && signal.iceRestart) {
+          await this.handleOffer(signal.offer);
+          break;
+        }
+        // We are the answerer - create answer. Any other offer while we
+        // already have a connection means the initiator is re-establishing it.
+        if (this.pc) {
+          this.awaitFreshConnection();
+        }
+        this.isInitiator = false;
+        await this.createPeerConnection();
+        await this.handleOffer(signal.offer);
+        break;
+
+      case 'answer':
+        if (!this.isProvenPeer(signal.answer.sdp)) {
+          this.failPasswordCheck('The connection answer did not come from the peer that proved the room password.');
+          break;
+        }
+        await this.handleAnswer(signal.answer);
+        break;
+
+      case 'ice-candidate':
+        await this.handleIceCandidate(signal.candidate);
+        break;
+
+      case 'pake-share':
+        if (this.isInitiator) {
+          await this.handlePasswordReply(signal.share, signal.fingerprints, signal.confirmation);
+        } else {
+          await this.handlePasswordShare(signal.share, signal.fingerprints);
+        }
+        break;
+
+      case 'pake-confirm':
+        await this.handlePasswordConfirm(signal.confirmation);
+        break;
+
+      case 'pake-failed':
+        this.handlePasswordRejected(signal.attemptsLeft);
+        break;
+
+      case 'pake-retry':
+        if (!this.isInitiator) break;
+        if (this.passwordAttempts >= MAX_PASSWORD_ATTEMPTS) {
+          this.context.sendSignal({ type: 'pake-failed', attemptsLeft: 0 });
+          break;
+        }
+        await this.startNegotiation();
+        break;
+    }
+  }
+
+  // Responder: answer the initiator's share with ours and our confirmation
+  private async handlePasswordShare(share: string, peerFingerprints: string[]): Promise<void> {
+    const password = this.context.getPassword();
+    if (!password) {
+      this.context.sendSignal({ type: 'pake-failed' });
+      this.failPasswordCheck('This room is protected by a password.', 'PASSWORD_REQUIRED');
+      return;
+    }
+    const fingerprints = this.localFingerprints();
+    if (!fingerprints) return;
+
+    const exchange = await RoomPasswordExchange.start(password, this.context.roomId, 'responder', fingerprints);
+    let confirmation: string;
+    try {
+      confirmation = await exchange.receiveShare(share, peerFingerprints);
+    } catch (error) {
+      console.error('[WebRTC] Invalid password share:', error);
+      this.context.sendSignal({ type: 'pake-failed' });
+      this.failPasswordCheck('The room password check failed. Please try again.', 'WRONG_PASSWORD');
+      return;
+    }
+
+    this.passwordExchange = exchange;
+    this.passwordVerified = false;
+    this.provenFingerprints = null;
+    this.context.sendSignal({ type: 'pake-share', share: exchange.share, fingerprints, confirmation });
+  }
+
+  // Initiator: a matching confirmation means the same password; then offer
+  private async handlePasswordReply(share: string, peerFingerprints: string[], peerConfirmation?: string): Promise<void> {
+    const exchange = this.passwordExchange;
+    if (!exchange || !peerConfirmation) return;
+
+    let verified = false;
+    let confirmation = '';
+    try {
+      confirmation = await exchange.receiveShare(share, peerFingerprints);
+      verified = await exchange.verify(peerConfirmation);
+    } catch (error) {
+      console.error('[WebRTC] Invalid password share:', error);
+    }
+
+    if (!verified) {
+      this.passwordExchange = null;
+      this.context.sendSignal({ type: 'pake-failed', attemptsLeft: MAX_PASSWORD_ATTEMPTS - this.passwordAttempts });
+      this.callbacks.onError('Someone tried to join with the wrong room password.');
+      return;
+    }
+
+    this.passwordVerified = true;
+    this.provenFingerprints = exchange.peerFingerprints;
+    this.context.sendSignal({ type: 'pake-confirm', confirmation });
+    await this.createPeerConnection();
+    await this.createOffer();
+  }
+
+  // Responder: the initiator's confirmation proves it knows the password too
+  private async handlePasswordConfirm(peerConfirmation: string): Promise<void> {
+    const exchange = this.passwordExchange;
+    if (!exchange || this.isInitiator) return;
+
+    let verified = false;
+    try {
+      verified = await exchange.verify(peerConfirmation);
+    } catch (error) {
+      console.error('[WebRTC] Error verifying password confirmation:', error);
+    }
+
+    if (verified) {
+      this.passwordVerified = true;
+      this.provenFingerprints = exchange.peerFingerprints;
+    } else {
+      this.context.sendSignal({ type: 'pake-failed' });
+      this.failPasswordCheck('Your peer could not prove it knows the room password.', 'WRONG_PASSWORD');
+    }
+  }
+
+  private handlePasswordRejected(attemptsLeft?: number): void {
+    if (this.isInitiator) {
+      // The responder refused our share or our offer; wait for its retry
+      this.resetPasswordCheck();
+      this.closePeerConnection();
+      this.callbacks.onError('Someone tried to join with a different room password.');
+      this.setState('connecting');
+      return;
+    }
+
+    if (attemptsLeft === 0) {
+      this.failPasswordCheck('Too many wrong passwords. Ask your peer to create a new room.', 'WRONG_PASSWORD');
+    } else if (!this.context.getPassword()) {
+      this.failPasswordCheck('This room is protected by a password.', 'PASSWORD_REQUIRED');
+    } else {
+      this.failPasswordCheck(attemptsLeft !== undefined
+        ? `Wrong room password. ${attemptsLeft} attempt${attemptsLeft === 1 ? '' : 's'} left.`
+        : 'Wrong room password.', 'WRONG_PASSWORD');
+    }
+  }
+
+  private failPasswordCheck(message: string, code?: SignalingErrorCode): void {
+    this.resetPasswordCheck();
+    this.closePeerConnection();
+    this.callbacks.onError(message, code);
+    this.setState('error');
+  }
+
+  private resetPasswordCheck(): void {
+    this.passwordExchange = null;
+    this.passwordVerified = false;
+    this.provenFingerprints = null;
+  }
+
+  // The server relays no more password checks for the room, so a peer that
+  // has not proven the password yet never will
+  handlePasswordLocked(message: string): void {
+    if (!this.context.getPassword() || this.passwordVerified) return;
+    this.failPasswordCheck(message, 'PASSWORD_LOCKED');
+  }
+
+  // After a failed password check, asks the initiator to run the exchange
+  // anew; the new password is read from the context
+  retryPassword(): void {
+    this.resetPasswordCheck();
+    this.setState('connecting');
+    this.context.sendSignal({ type: 'pake-retry' });
+  }
+
+  private async createPeerConnection(): Promise<void> {
+    // Replace any connection left over from before a reconnect
+    this.closePeerConnection();
+
+    // Create RTCPeerConnection with STUN servers
+    const certificate = this.context.certificate;
+    this.pc = new RTCPeerConnection({
+      iceServers: P2P_CONFIG.iceServers.map(server => ({
+        urls: server.urls,
+        username: server.username,
+        credential: server.credential
+      })),
+      certificates: certificate ? [certificate] : undefined
+    });
+
+    // ICE candidate handler
+    this.pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        const candidate: IceCandidate = {
+          candidate: event.candidate.candidate,
+          sdpMid: event.candidate.sdpMid,
+          sdpMLineIndex: event.candidate.sdpMLineIndex,
+          usernameFragment: event.candidate.usernameFragment
+        };
+
+        this.context.sendSignal({
+          type: 'ice-candidate',
+          candidate
+        });
+      }
+    };
+
+    // Connection state handler
+    this.pc.onconnectionstatechange = () => {
+      console.log(`[WebRTC] Connection state with ${this.peerId}:`, this.pc?.connectionState);
+
+      switch (this.pc?.connectionState) {
+        case 'connected':
+          this.stopRecovery();
+          this.reestablished = false;
+          this.setState('connected');
+          break;
+        case 'disconnected':
+          this.setState('reconnecting');
+          this.scheduleIceRestart(DISCONNECTED_GRACE);
+          break;
+        case 'failed':
+          this.setState('reconnecting');
+          this.scheduleIceRestart(0);
+          break;
+        case 'closed':
+          this.setState('disconnected');
+          break;
+      }
+    };
+
+    // If initiator, create data channels
+    if (this.isInitiator) {
+      this.createDataChannels();
+    } else {
+      // If answerer, wait for the initiator's data channels, however many
+      this.pc.ondatachannel = (event) => {
+        if (event.channel.label === CONTROL_CHANNEL_LABEL) {
+          this.dataChannels.unshift(event.channel);
+        } else {
+          this.dataChannels.push(event.channel);
+        }
+        this.setupDataChannel(event.channel);
+      };
+    }
+  }
+
+  private createDataChannels(): void {
+    if (!this.pc) return;
+
+    for (let i = 0; i < Math.max(1, P2P_CONFIG.dataChannelCount); i++) {
+      const label = i === 0 ? CONTROL_CHANNEL_LABEL : `${STRIPE_CHANNEL_PREFIX}${i}`;
+      const channel = this.pc.createDataChannel(label, {
+        ordered: true
+      });
+      this.dataChannels.push(channel);
+      this.setupDataChannel(channel);
+    }
+  }
+
+  private getControlChannel(): RTCDataChannel | undefined {
+    return this.dataChannels.find(channel => channel.label === CONTROL_CHANNEL_LABEL);
+  }
+
+  private setupDataChannel(channel: RTCDataChannel): void {
+    const isControl = channel.label === CONTROL_CHANNEL_LABEL;
+    channel.binaryType = 'arraybuffer';
+    // Wakes the sender as soon as a channel has room again, without polling
+    // (timers are throttled in background tabs)
+    channel.bufferedAmountLowThreshold = P2P_CONFIG.bufferedAmountLowThreshold;
+    channel.onbufferedamountlow = () => {
+      this.callbacks.onBufferedAmountLow();
+    };
+
+    channel.onopen = () => {
+      console.log(`[WebRTC] DataChannel ${channel.label} to ${this.peerId} opened`);
+      // Stripe channels join the pool as they open; the connection counts as
+      // up once the control channel is
+      if (!isControl) return;
+
+      this.isReestablishing = false;
+      this.setState('connected');
+      this.callbacks.onDataChannelOpen();
+      this.updateVerificationCode();
+    };
+
+    channel.onmessage = (event) => {
+      const linkKeys = this.context.linkKeys;
+      if (!linkKeys) {
+        this.handleChannelData(event.data);
+        return;
+      }
+
+      const key = linkKeys.channelKey;
+      const previous = this.receiveChains.get(channel) ?? Promise.resolve();
+      this.receiveChains.set(channel, previous.then(() => this.handleSealedChannelData(key, event.data)));
+    };
+
+    channel.onerror = (error) => {
+      console.error(`[WebRTC] DataChannel ${channel.label} error:`, error);
+      this.callbacks.onError('Data channel error');
+    };
+
+    channel.onclose = () => {
+      console.log(`[WebRTC] DataChannel ${channel.label} to ${this.peerId} closed`);
+      // A stripe channel only ever closes along with the peer connection,
+      // which also closes the control channel
+      if (!isControl) return;
+
+      this.callbacks.onDataChannelClose();
+      // Keep showing why, when we closed it ourselves
+      if (!this.isReestablishing && this.state !== 'error') {
+        this.setState('disconnected');
+      }
+    };
+  }
+
+  private async updateVerificationCode(): Promise<void> {
+    const local = this.pc?.localDescription?.sdp;
+    const remote = this.pc?.remoteDescription?.sdp;
+    if (!local || !remote) return;
+
+    try {
+      this.callbacks.onVerificationCode(await computeShortAuthString(local, remote));
+    } catch (error) {
+      console.error('[WebRTC] Error computing verification code:', error);
+    }
+  }
+
+  private handleChannelData(data: unknown): void {
+    // Check if it's a control message (JSON string) or chunk (ArrayBuffer)
+    if (typeof data === 'string') {
+      try {
+        const controlMessage: FileControlMessage | SealedControlMessage = JSON.parse(data);
+        if (controlMessage.type === 'sealed') {
+          this.callbacks.onError('Your peer is using end-to-end encryption. Open the full share link, including the part after #, to connect.');
+          return;
+        }
+        this.callbacks.onDataChannelMessage(controlMessage);
+      } catch (error) {
+        console.error('[WebRTC] Error parsing control message:', error);
+      }
+    } else if (data instanceof ArrayBuffer) {
+      this.callbacks.onDataChannelMessage(data);
+    }
+  }
+
+  private async handleSealedChannelData(key: CryptoKey, data: unknown): Promise<void> {
+    if (typeof data === 'string') {
+      let envelope: FileControlMessage | SealedControlMessage;
+      try {
+        envelope = JSON.parse(data);
+      } catch (error) {
+        console.error('[WebRTC] Error parsing control message:', error);
+        return;
+      }
+
+      // A plaintext message could come from anyone who got between the peers
+      if (envelope.type !== 'sealed') {
+        this.callbacks.onError('Your peer is not using end-to-end encryption. Both of you need to open the same share link.');
+        return;
+      }
+
+      try {
+        const message = await openControlMessage(key, envelope, this.receiveRoute(), this.lastControlSeq);
+        this.lastControlSeq = envelope.seq;
+        this.callbacks.onDataChannelMessage(message);
+      } catch (error) {
+        console.error('[WebRTC] Error opening control message:', error);
+        this.callbacks.onError(error instanceof AuthenticationError
+          ? 'A message from your peer failed authentication. Make sure you both opened the same share link.'
+          : 'Failed to read a message from your peer');
+      }
+    } else if (data instanceof ArrayBuffer) {
+      try {
+        this.callbacks.onDataChannelMessage(await openChunkFrame(key, data, this.receiveRoute()));
+      } catch (error) {
+        if (data.byteLength < 8) return;
+        const routing = new DataView(data, 0, 8);
+        this.callbacks.onChunkAuthFailure(routing.getUint32(0), routing.getUint32(4));
+      }
+    }
+  }
+
+  private sendRoute(): SealedRoute {
+    return { from: this.context.localPeerId, to: this.peerId };
+  }
+
+  private receiveRoute(): SealedRoute {
+    return { from: this.peerId, to: this.context.localPeerId };
+  }
+
+  // Sends in queue order on a channel, sealing first when encryption is on
+  private enqueueSend(channel: RTCDataChannel, prepare: () => Promise<string | ArrayBuffer>): Promise<void> {
+    const previous = this.sendChains.get(channel) ?? Promise.resolve();
+    const next = previous
+      .then(prepare)
+      .then(data => {
+        if (channel.readyState !== 'open') return;
+        // send takes either; its overloads just do not accept the union
+        channel.send(data as string);
+      })
+      .catch(error => {
+        console.error('[WebRTC] Error sealing message:', error);
+        this.callbacks.onError('Failed to encrypt a message');
+      });
+    this.sendChains.set(channel, next);
+    return next;
+  }
+
+  // One restart at a time: a 'failed' during an attempt waits for it to
+  // time out
+  private scheduleIceRestart(delay: number): void {
+    if (this.recoveryTimer) return;
+    this.recoveryTimer = setTimeout(() => this.restartIce(), delay);
+  }
+
+  // The signaling socket carries the new offer and candidates, so the peer
+  // connection and its data channels stay as they are. Only the initiator
+  // offers; the answerer counts the same attempts and answers them.
+  private async restartIce(): Promise<void> {
+    this.recoveryTimer = null;
+    if (!this.pc || this.pc.connectionState === 'connected') return;
+
+    // Without the server no attempt can work; resumeIceRestarts picks this
+    // up once it is back
+    if (!this.context.signalingReady()) return;
+
+    if (this.iceRestarts >= MAX_ICE_RESTARTS) {
+      await this.reestablishConnection();
+      return;
+    }
+
+    this.iceRestarts++;
+    console.log(`[WebRTC] Restarting ICE with ${this.peerId} (attempt ${this.iceRestarts} of ${MAX_ICE_RESTARTS})`);
+    this.recoveryTimer = setTimeout(() => this.restartIce(), ICE_RESTART_TIMEOUT);
+    if (this.isInitiator) {
+      await this.createOffer(true);
+    }
+  }
+
+  // After the signaling socket came back: tries again at once if we were
+  // still waiting to
+  resumeIceRestarts(): void {
+    if (this.state === 'reconnecting') {
+      this.scheduleIceRestart(0);
+    }
+  }
+
+  private async reestablishConnection(): Promise<void> {
+    // ICE restarts did not bring the connection back, so a fresh peer
+    // connection is negotiated without leaving the room; transfers continue
+    // on its channels once the receiver says where to pick up. Only the
+    // initiator sends the new offer; the answerer waits for it.
+    if (this.reestablished) {
+      this.giveUp();
+      return;
+    }
+    console.log(`[WebRTC] Peer connection to ${this.peerId} failed, re-establishing`);
+    this.awaitFreshConnection();
+    this.setState('reconnecting');
+
+    if (this.isInitiator) {
+      await this.createPeerConnection();
+      await this.createOffer();
+    } else {
+      this.closePeerConnection();
+    }
+  }
+
+  // Once per lost connection; given up on if the fresh one does not come up
+  private awaitFreshConnection(): void {
+    this.stopRecovery();
+    this.reestablished = true;
+    this.isReestablishing = true;
+    this.recoveryTimer = setTimeout(() => this.giveUp(), REESTABLISH_TIMEOUT);
+  }
+
+  // Nothing queued for or coming from this peer can finish now
+  private giveUp(): void {
+    console.warn(`[WebRTC] Giving up on the connection to ${this.peerId}`);
+    this.stopRecovery();
+    this.isReestablishing = false;
+    this.closePeerConnection();
+    this.callbacks.onError('Lost the connection to your peer.');
+    this.setState('error');
+    this.callbacks.onConnectionLost();
+  }
+
+  private stopRecovery(): void {
+    if (this.recoveryTimer) {
+      clearTimeout(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+    this.iceRestarts = 0;
+  }
+
+  private closePeerConnection(): void {
+    for (const channel of this.dataChannels) {
+      channel.close();
+    }
+    this.dataChannels = [];
+    this.sendChains.clear();
+    this.receiveChains.clear();
+
+    if (this.pc) {
+      this.pc.onconnectionstatechange = null;
+      this.pc.onicecandidate = null;
+      this.pc.close();
+      this.pc = null;
+    }
+  }
+
+  private async createOffer(iceRestart: boolean = false): Promise<void> {
+    if (!this.pc) return;
+
+    try {
+      const offer = await this.pc.createOffer({ iceRestart });
+      await this.pc.setLocalDescription(offer);
+
+      const sessionDesc: SessionDescription = {
+        type: offer.type as 'offer',
+        sdp: offer.sdp!
+      };
+
+      this.context.sendSignal({
+        type: 'offer',
+        offer: sessionDesc,
+        iceRestart: iceRestart || undefined
+      });
+    } catch (error) {
+      console.error('[WebRTC] Error creating offer:', error);
+      this.callbacks.onError('Failed to create offer');
+    }
+  }
+
+  private async handleOffer(offer: SessionDescription): Promise<void> {
+    if (!this.pc) return;
+
+    try {
+      await this.pc.setRemoteDescription(new RTCSessionDescription(offer));
+
+      const answer = await this.pc.createAnswer();
+      await this.pc.setLocalDescription(answer);
+
+      const sessionDesc: SessionDescription = {
+        type: answer.type as 'answer',
+        sdp: answer.sdp!
+      };
+
+      this.context.sendSignal({
+        type: 'answer',
+        answer: sessionDesc
+      });
+    } catch (error) {
+      console.error('[WebRTC] Error handling offer:', error);
+      this.callbacks.onError('Failed to handle offer');
+    }
+  }
+
+  private async handleAnswer(answer: SessionDescription): Promise<void> {
+    if (!this.pc) return;
+
+    try {
+      await this.pc.setRemoteDescription(new RTCSessionDescription(answer));
+    } catch (error) {
+      console.error('[WebRTC] Error handling answer:', error);
+      this.callbacks.onError('Failed to handle answer');
+    }
+  }
+
+  private async handleIceCandidate(candidate: IceCandidate): Promise<void> {
+    if (!this.pc) return;
+
+    try {
+      const iceCandidate = new RTCIceCandidate({
+        candidate: candidate.candidate,
+        sdpMid: candidate.sdpMid,
+        sdpMLineIndex: candidate.sdpMLineIndex
+      });
+
+      await this.pc.addIceCandidate(iceCandidate);
+    } catch (error) {
+      console.error('[WebRTC] Error adding ICE candidate:', error);
+    }
+  }
+
+  sendControlMessage(message: FileControlMessage): void {
+    const channel = this.getControlChannel();
+    if (!channel || channel.readyState !== 'open') return;
+
+    const key = this.context.linkKeys?.channelKey;
+    if (key) {
+      const seq = this.nextControlSeq++;
+      this.enqueueSend(channel, () => sealControlMessage(key, message, this.sendRoute(), seq));
+    } else {
+      channel.send(JSON.stringify(message));
+    }
+  }
+
+  // Indices of the channels a chunk can be sent on right now
+  getChunkChannels(): number[] {
+    const open: number[] = [];
+    this.dataChannels.forEach((channel, index) => {
+      if (channel.readyState === 'open') {
+        open.push(index);
+      }
+    });
+    return open;
+  }
+
+  // Resolves once the chunk is in the channel's buffer, so bufferedAmount
+  // reflects it (sealing happens first when encryption is on)
+  async sendChunk(chunk: ArrayBuffer, channelIndex: number = 0): Promise<void> {
+    const channel = this.dataChannels[channelIndex];
+    if (!channel || channel.readyState !== 'open') return;
+
+    const key = this.context.linkKeys?.channelKey;
+    if (key) {
+      await this.enqueueSend(channel, () => sealChunkFrame(key, chunk, this.sendRoute()));
+    } else {
+      channel.send(chunk);
+    }
+  }
+
+  isEncrypted(): boolean {
+    return this.context.linkKeys !== null;
+  }
+
+  // Bytes queued on one channel, or on all of them when no index is given
+  getBufferedAmount(channelIndex?: number): number {
+    if (channelIndex !== undefined) {
+      return this.dataChannels[channelIndex]?.bufferedAmount || 0;
+    }
+    return this.dataChannels.reduce((total, channel) => total + channel.bufferedAmount, 0);
+  }
+
+  // Largest message the remote peer accepts, as negotiated in the SDP
+  // (a=max-message-size); browsers that do not report it get the safe 64KB
+  getMaxMessageSize(): number {
+    return this.pc?.sctp?.maxMessageSize || 64 * 1024;
+  }
+
+  isConnected(): boolean {
+    return this.getControlChannel()?.readyState === 'open';
+  }
+
+  close(): void {
+    this.stopRecovery();
+    this.isReestablishing = false;
+    this.resetPasswordCheck();
+    this.closePeerConnection();
+  }
+}
@@ -0,0 +1,73 @@
+// Short authentication string (SAS) for checking who is on the other end.
+//
+// DTLS proves each side holds the private key for the certificate whose
+// fingerprint appears in its SDP, but the SDP travels through the signaling
+// server. Both browsers hash the two fingerprints they actually used into a
+// short code; if a server swapped in its own certificates, the peers would
+// compute different codes. Comparing them over a call or in person closes
+// the gap.
+
+export interface ShortAuthString {
+  emoji: Array<{ symbol: string, name: string }>;
+  digits: string; // six digits, for when emoji are hard to read aloud
+}
+
+// 64 easily told apart emoji, so each one encodes 6 bits
+const SAS_EMOJI: Array<[string, string]> = [
+  ['🐶', 'Dog'], ['🐱', 'Cat'], ['🦁', 'Lion'], ['🐎', 'Horse'],
+  ['🦄', 'Unicorn'], ['🐷', 'Pig'], ['🐘', 'Elephant'], ['🐰', 'Rabbit'],
+  ['🐼', 'Panda'], ['🐓', 'Rooster'], ['🐧', 'Penguin'], ['🐢', 'Turtle'],
+  ['🐟', 'Fish'], ['🐙', 'Octopus'], ['🦋', 'Butterfly'], ['🌷', 'Flower'],
+  ['🌳', 'Tree'], ['🌵', 'Cactus'], ['🍄', 'Mushroom'], ['🌏', 'Globe'],
+  ['🌙', 'Moon'], ['☁️', 'Cloud'], ['🔥', 'Fire'], ['🍌', 'Banana'],
+  ['🍎', 'Apple'], ['🍓', 'Strawberry'], ['🌽', 'Corn'], ['🍕', 'Pizza'],
+  ['🎂', 'Cake'], ['❤️', 'Heart'], ['😀', 'Smiley'], ['🤖', 'Robot'],
+  ['🎩', 'Hat'], ['👓', 'Glasses'], ['🔧', 'Spanner'], ['🎅', 'Santa'],
+  ['👍', 'Thumbs Up'], ['☂️', 'Umbrella'], ['⌛', 'Hourglass'], ['⏰', 'Clock'],
+  ['🎁', 'Gift'], ['💡', 'Light Bulb'], ['📕', 'Book'], ['✏️', 'Pencil'],
+  ['📎', 'Paperclip'], ['✂️', 'Scissors'], ['🔒', 'Lock'], ['🔑', 'Key'],
+  ['🔨', 'Hammer'], ['☎️', 'Telephone'], ['🏁', 'Flag'], ['🚂', 'Train'],
+  ['🚲', 'Bicycle'], ['✈️', 'Aeroplane'], ['🚀', 'Rocket'], ['🏆', 'Trophy'],
+  ['⚽', 'Ball'], ['🎸', 'Guitar'], ['🎺', 'Trumpet'], ['🔔', 'Bell'],
+  ['⚓', 'Anchor'], ['🎧', 'Headphones'], ['📁', 'Folder'], ['📌', 'Pin']
+];
+
+const SAS_EMOJI_COUNT = 5;
+const SAS_INFO = 'air-drop-plus/sas/v1';
+
+// The a=fingerprint lines of an SDP, normalized ("sha-256 AB:CD:...")
+export function extractFingerprints(sdp: string): string[] {
+  const fingerprints = new Set<string>();
+  for (const match of Array.from(sdp.matchAll(/^a=fingerprint:(\S+) ([0-9A-Fa-f:]+)\s*$/gm))) {
+    fingerprints.add(`${match[1].toLowerCase()} ${match[2].toUpperCase()}`);
+  }
+  return Array.from(fingerprints).sort();
+}
+
+export async function computeShortAuthString(localSdp: string, remoteSdp: string): Promise<ShortAuthString> {
+  const local = extractFingerprints(localSdp);
+  const remote = extractFingerprints(remoteSdp);
+  if (local.length === 0 || remote.length === 0) {
+    throw new Error('Session description has no DTLS fingerprint');
+  }
+
+  // Sorted so both peers hash the same input whichever side they are on
+  const sides = [local.join(','), remote.join(',')].sort();
+  const input = new TextEncoder().encode([SAS_INFO, ...sides].join('|'));
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', input));
+
+  // Read the digest as a bit string: 6 bits per emoji, then 20 bits of digits
+  let bits = '';
+  for (let i = 0; i < 8; i++) {
+    bits += digest[i].toString(2).padStart(8, '0');
+  }
+
+  const emoji = Array.from({ length: SAS_EMOJI_COUNT }, (_, i) => {
+    const [symbol, name] = SAS_EMOJI[parseInt(bits.slice(i * 6, i * 6 + 6), 2)];
+    return { symbol, name };
+  });
+  const number = parseInt(bits.slice(SAS_EMOJI_COUNT * 6, SAS_EMOJI_COUNT * 6 + 20), 2) % 1_000_000;
+
+  return { emoji, digits: number.toString().padStart(6, '0') };
+}
+
@@ -0,0 +1,341 @@
+import { DEFAULT_P2P_CONFIG as P2P_CONFIG, type FileMetadata, type ReceiveSinkKind } from '@shared/schema';
+import { splitRelativePath } from '@/lib/folder-entries';
+
+// Where received chunks end up. Each receiving transfer gets its own sink and
+// FileTransferManager writes every verified chunk to it as it arrives, so only
+// the in-memory sink ever holds a whole file in RAM.
+export interface ReceiveSink {
+  readonly kind: ReceiveSinkKind;
+  write(chunkIndex: number, offset: number, data: ArrayBuffer): Promise<void>;
+  // Finishes the file. Sinks that can read it back return it as a Blob
+  // (disk-backed for the File System Access sink).
+  close(): Promise<Blob | undefined>;
+  abort(): Promise<void>;
+}
+
+const DOWNLOAD_WORKER_URL = '/receive-sw.js';
+// Chunks a download may hold for an earlier one still missing. The sender
+// keeps within the receive window, so more than that means it did not.
+const MAX_PENDING_BYTES = P2P_CONFIG.receiveWindow + P2P_CONFIG.maxChunkSize;
+
+// Walks (and creates) the folders of a received path below the chosen directory
+async function resolveDirectory(root: FileSystemDirectoryHandle, segments: string[]): Promise<FileSystemDirectoryHandle> {
+  let directory = root;
+  for (const segment of segments) {
+    directory = await directory.getDirectoryHandle(segment, { create: true });
+  }
+  return directory;
+}
+
+// Paths below the chosen directory that a sink is writing to; they are not
+// on disk until it closes, so two files of the same name must not both
+// pick one
+const claimedPaths: Set<string> = new Set();
+
+// "name (n).ext", the way browsers number a download whose name is taken
+function numberedName(fileName: string, n: number): string {
+  const dot = fileName.lastIndexOf('.');
+  // A leading dot starts a hidden file's name, not an extension
+  if (dot <= 0) return `${fileName} (${n})`;
+  return `${fileName.slice(0, dot)} (${n})${fileName.slice(dot)}`;
+}
+
+// The received name, or the first numbered one nothing in the directory
+// (file or folder) has yet. The peer picks the name, so an existing file
+// must never be opened and truncated.
+async function unusedFileName(directory: FileSystemDirectoryHandle, pathPrefix: string, fileName: string): Promise<string> {
+  for (let n = 0; n < 1000; n++) {
+    const candidate = n === 0 ? fileName : numberedName(fileName, n);
+    if (claimedPaths.has(pathPrefix + candidate)) continue;
+    try {
+      await directory.getFileHandle(candidate);
+    } catch (error) {
+      const name = (error as Error).name;
+      if (name === 'NotFoundError') return candidate;
+      // A folder of that name
+      if (name === 'TypeMismatchError') continue;
+      throw error;
+    }
+  }
+  throw new Error(`No free name for ${fileName}`);
+}
+
+// Writes straight into a new file inside a directory the user picked,
+// recreating the sender's folder structure underneath it
+class FileSystemSink implements ReceiveSink {
+  readonly kind = 'file-system' as const;
+
+  private constructor(
+    private handle: FileSystemFileHandle,
+    private writable: FileSystemWritableFileStream,
+    private directory: FileSystemDirectoryHandle,
+    private path: string
+  ) {}
+
+  static async open(root: FileSystemDirectoryHandle, metadata: FileMetadata): Promise<FileSystemSink> {
+    const segments = splitRelativePath(metadata.relativePath ?? metadata.name);
+    const fileName = segments.pop() ?? metadata.name;
+    const directory = await resolveDirectory(root, segments);
+    const pathPrefix = segments.map(segment => `${segment}/`).join('');
+    const path = pathPrefix + await unusedFileName(directory, pathPrefix, fileName);
+    claimedPaths.add(path);
+    try {
+      const handle = await directory.getFileHandle(path.slice(pathPrefix.length), { create: true });
+      const writable = await handle.createWritable();
+      return new FileSystemSink(handle, writable, directory, path);
+    } catch (error) {
+      claimedPaths.delete(path);
+      throw error;
+    }
+  }
+
+  async write(_chunkIndex: number, offset: number, data: ArrayBuffer): Promise<void> {
+    await this.writable.write({ type: 'write', position: offset, data });
+  }
+
+  async close(): Promise<Blob | undefined> {
+    try {
+      await this.writable.close();
+    } finally {
+      claimedPaths.delete(this.path);
+    }
+    return this.handle.getFile();
+  }
+
+  // The file was created for this transfer, so nothing is left of it
+  async abort(): Promise<void> {
+    try {
+      await this.writable.abort();
+      await this.directory.removeEntry(this.handle.name);
+    } finally {
+      claimedPaths.delete(this.path);
+    }
+  }
+}
+
+// An empty directory: creating it is all there is to do
+class DirectoryEntrySink implements ReceiveSink {
+  readonly kind = 'file-system' as const;
+
+  static async open(root: FileSystemDirectoryHandle, metadata: FileMetadata): Promise<DirectoryEntrySink> {
+    await resolveDirectory(root, splitRelativePath(metadata.relativePath ?? metadata.name));
+    return new DirectoryEntrySink();
+  }
+
+  async write(): Promise<void> {}
+
+  async close(): Promise<Blob | undefined> {
+    return undefined;
+  }
+
+  async abort(): Promise<void> {}
+}
+
+// Streams the file into a regular browser download through the service worker
+// in client/public/receive-sw.js. The download is strictly sequential, so
+// chunks that arrive ahead of their turn wait here until the gap is filled.
+// A write finishes once the worker acknowledges its chunk, which it does only
+// when the browser keeps up, so a stalled download holds up the transfer
+// instead of filling the worker's memory.
+class DownloadStreamSink implements ReceiveSink {
+  readonly kind = 'download' as const;
+  private nextChunkIndex = 0;
+  private pending: Map<number, ArrayBuffer> = new Map();
+  private pendingBytes = 0;
+  private acknowledge: (() => void) | null = null;
+  // The user cancelled the download in the browser
+  private cancelled = false;
+
+  private constructor(
+    private port: MessagePort,
+    private frame: HTMLIFrameElement,
+    onCancelled: () => void
+  ) {
+    port.onmessage = (event) => {
+      switch (event.data?.type) {
+        case 'ack':
+          this.settleWrite();
+          break;
+        case 'cancelled':
+          this.cancelled = true;
+          this.clearPending();
+          this.settleWrite();
+          onCancelled();
+          break;
+      }
+    };
+  }
+
+  static async open(worker: ServiceWorker, metadata: FileMetadata, onCancelled: () => void): Promise<DownloadStreamSink> {
+    const channel = new MessageChannel();
+
+    const url = await new Promise<string>((resolve, reject) => {
+      const timeout = window.setTimeout(() => reject(new Error('Download worker did not respond')), 5000);
+      channel.port1.onmessage = (event) => {
+        if (event.data?.type === 'ready') {
+          window.clearTimeout(timeout);
+          resolve(event.data.url);
+        }
+      };
+      worker.postMessage({
+        type: 'register-download',
+        id: metadata.id,
+        name: metadata.name,
+        mimeType: metadata.type,
+        size: metadata.size
+      }, [channel.port2]);
+    });
+
+    // Navigating a hidden frame to the worker's URL starts the download
+    const frame = document.createElement('iframe');
+    frame.hidden = true;
+    frame.src = url;
+    document.body.appendChild(frame);
+
+    return new DownloadStreamSink(channel.port1, frame, onCancelled);
+  }
+
+  async write(chunkIndex: number, _offset: number, data: ArrayBuffer): Promise<void> {
+    // Nothing reads the stream any more; the transfer is being cancelled
+    if (this.cancelled) return;
+    if (this.pendingBytes + data.byteLength > MAX_PENDING_BYTES) {
+      throw new Error(`Chunk ${chunkIndex} is too far ahead of chunk ${this.nextChunkIndex}`);
+    }
+    this.pending.set(chunkIndex, data);
+    this.pendingBytes += data.byteLength;
+
+    while (!this.cancelled && this.pending.has(this.nextChunkIndex)) {
+      const chunk = this.pending.get(this.nextChunkIndex)!;
+      this.pending.delete(this.nextChunkIndex);
+      this.pendingBytes -= chunk.byteLength;
+      const acknowledged = new Promise<void>(resolve => {
+        this.acknowledge = resolve;
+      });
+      this.port.postMessage({ type: 'chunk', chunk }, [chunk]);
+      this.nextChunkIndex++;
+      await acknowledged;
+    }
+  }
+
+  async close(): Promise<Blob | undefined> {
+    this.port.postMessage({ type: 'close' });
+    this.release();
+    return undefined;
+  }
+
+  async abort(): Promise<void> {
+    this.port.postMessage({ type: 'abort' });
+    this.release();
+  }
+
+  private settleWrite(): void {
+    this.acknowledge?.();
+    this.acknowledge = null;
+  }
+
+  private clearPending(): void {
+    this.pending.clear();
+    this.pendingBytes = 0;
+  }
+
+  private release(): void {
+    this.clearPending();
+    // An aborted stream never acknowledges the chunk still in flight
+    this.settleWrite();
+    // Give the browser time to pick up the end of the stream before the
+    // frame that owns the download goes away
+    window.setTimeout(() => {
+      this.frame.remove();
+      this.port.close();
+    }, 10000);
+  }
+}
+
+// Keeps every chunk in memory and assembles a Blob at the end
+class MemorySink implements ReceiveSink {
+  readonly kind = 'memory' as const;
+  private chunks: ArrayBuffer[] = [];
+
+  constructor(private mimeType: string) {}
+
+  async write(chunkIndex: number, _offset: number, data: ArrayBuffer): Promise<void> {
+    this.chunks[chunkIndex] = data;
+  }
+
+  async close(): Promise<Blob | undefined> {
+    const blob = new Blob(this.chunks, { type: this.mimeType });
+    this.chunks = [];
+    return blob;
+  }
+
+  async abort(): Promise<void> {
+    this.chunks = [];
+  }
+}
+
+let downloadWorker: Promise<ServiceWorker | null> | null = null;
+
+// Registers the download service worker once; resolves to null where
+// service workers are unavailable (insecure context, private mode, ...)
+export function registerDownloadWorker(): Promise<ServiceWorker | null> {
+  if (!downloadWorker) {
+    if ('serviceWorker' in navigator && window.isSecureContext) {
+      downloadWorker = navigator.serviceWorker
+        .register(DOWNLOAD_WORKER_URL)
+        .then(() => navigator.serviceWorker.ready)
+        .then(registration => registration.active)
+        .catch(error => {
+          console.warn('[ReceiveSink] Download worker unavailable:', error);
+          return null;
+        });
+    } else {
+      downloadWorker = Promise.resolve(null);
+    }
+  }
+  return downloadWorker;
+}
+
+export function supportsDirectoryPicker(): boolean {
+  return 'showDirectoryPicker' in window;
+}
+
+// Asks the user for a folder that received files are written into
+export async function pickDownloadDirectory(): Promise<FileSystemDirectoryHandle> {
+  const pickerWindow = window as Window & {
+    showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>
+  };
+  return pickerWindow.showDirectoryPicker!({ mode: 'readwrite' });
+}
+
+// Picks the best available sink: a chosen directory first, then a streamed
+// download for files too large to keep in memory, then an in-memory Blob.
+// onCancelled runs if the user cancels a streamed download in the browser.
+export async function createReceiveSink(
+  metadata: FileMetadata,
+  directory: FileSystemDirectoryHandle | null,
+  maxInMemorySize: number,
+  onCancelled: () => void
+): Promise<ReceiveSink> {
+  if (directory) {
+    try {
+      return metadata.isDirectory
+        ? await DirectoryEntrySink.open(directory, metadata)
+        : await FileSystemSink.open(directory, metadata);
+    } catch (error) {
+      console.warn('[ReceiveSink] Cannot write to chosen directory:', error);
+    }
+  }
+
+  if (metadata.size > maxInMemorySize) {
+    const worker = await registerDownloadWorker();
+    if (worker) {
+      try {
+        return await DownloadStreamSink.open(worker, metadata, onCancelled);
+      } catch (error) {
+        console.warn('[ReceiveSink] Cannot stream download:', error);
+      }
+    }
+  }
+
+  return new MemorySink(metadata.type);
+}
@@ -0,0 +1,227 @@
+// Room passwords checked with SPAKE2, a password-authenticated key exchange.
+//
+// The peers prove to each other that they typed the same password without
+// sending it anywhere: each sends one group element through the signaling
+// server, both derive a shared key, and each confirms the key with an HMAC.
+// The server (or anyone relaying messages) learns nothing it could use to
+// test passwords offline; every guess costs a live attempt against a peer.
+// Each side's DTLS certificate fingerprints go into the key too, so the
+// proof also vouches for the certificate the peer will connect with: someone
+// relaying an honest check cannot then swap their own into the SDP.
+//
+// The group is the 2048-bit MODP group from RFC 3526 (group 14). Its prime
+// p is safe (p = 2q + 1) and g = 2 generates the subgroup of prime order q.
+// M and N are fixed elements of that subgroup nobody knows a logarithm for:
+// squares of hash outputs.
+
+const P = BigInt('0x' +
+  'FFFFFFFFFFFFFFFFC90FDAA22168C234C4C6628B80DC1CD129024E088A67CC74' +
+  '020BBEA63B139B22514A08798E3404DDEF9519B3CD3A431B302B0A6DF25F1437' +
+  '4FE1356D6D51C245E485B576625E7EC6F44C42E9A637ED6B0BFF5CB6F406B7ED' +
+  'EE386BFB5A899FA5AE9F24117C4B1FE649286651ECE45B3DC2007CB8A163BF05' +
+  '98DA48361C55D39A69163FA8FD24CF5F83655D23DCA3AD961C62F356208552BB' +
+  '9ED529077096966D670C354E4ABC9804F1746C08CA18217C32905E462E36CE3B' +
+  'E39E772C180E86039B2783A2EC07A28FB5C55DF06F4C52C9DE2BCBF695581718' +
+  '3995497CEA956AE515D2261898FA051015728E5A8AACAA68FFFFFFFFFFFFFFFF');
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const G = BigInt(2);
+const Q = (P - ONE) / BigInt(2);
+
+const ELEMENT_SIZE = 256; // bytes in p
+// Scalars are drawn from 64 bits more than q so reducing mod q leaves no bias
+const SCALAR_SIZE = ELEMENT_SIZE + 8;
+const CONTEXT = 'air-drop-plus/room-password/v1';
+
+export type PakeRole = 'initiator' | 'responder';
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = ONE;
+  let b = base % modulus;
+  let e = exponent;
+  while (e > ZERO) {
+    if (e & ONE) {
+      result = (result * b) % modulus;
+    }
+    e >>= ONE;
+    b = (b * b) % modulus;
+  }
+  return result;
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  let hex = '';
+  for (let i = 0; i < bytes.length; i++) {
+    hex += bytes[i].toString(16).padStart(2, '0');
+  }
+  return hex ? BigInt('0x' + hex) : ZERO;
+}
+
+function elementToHex(element: bigint): string {
+  return element.toString(16).padStart(ELEMENT_SIZE * 2, '0');
+}
+
+function hexToElement(hex: string): bigint | null {
+  if (!/^[0-9a-f]+$/i.test(hex) || hex.length !== ELEMENT_SIZE * 2) return null;
+  const element = BigInt('0x' + hex);
+  // Must lie in the order-q subgroup, excluding the identity
+  if (element <= ONE || element >= P - ONE || modPow(element, Q, P) !== ONE) return null;
+  return element;
+}
+
+// SHA-512 in counter mode, stretched to length bytes
+async function expand(label: string, input: Uint8Array, length: number): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const output = new Uint8Array(length);
+  for (let offset = 0, counter = 0; offset < length; counter++) {
+    const block = new Uint8Array(await crypto.subtle.digest('SHA-512', concat([
+      encoder.encode(`${CONTEXT}/${label}/${counter}`),
+      input
+    ])));
+    output.set(block.subarray(0, Math.min(block.length, length - offset)), offset);
+    offset += block.length;
+  }
+  return output;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+// Length-prefixed, so no two different transcripts encode the same
+function lengthPrefixed(parts: Uint8Array[]): Uint8Array {
+  return concat(parts.flatMap(part => {
+    const length = new Uint8Array(4);
+    new DataView(length.buffer).setUint32(0, part.length);
+    return [length, part];
+  }));
+}
+
+async function hashToElement(label: string): Promise<bigint> {
+  const value = bytesToBigInt(await expand(label, new Uint8Array(0), SCALAR_SIZE)) % P;
+  return modPow(value, BigInt(2), P);
+}
+
+let blindingElements: Promise<{ M: bigint, N: bigint }> | null = null;
+
+function getBlindingElements(): Promise<{ M: bigint, N: bigint }> {
+  if (!blindingElements) {
+    blindingElements = Promise.all([hashToElement('M'), hashToElement('N')])
+      .then(([M, N]) => ({ M, N }));
+  }
+  return blindingElements;
+}
+
+// One side of a SPAKE2 exchange. The initiator sends its share first; the
+// responder answers with its own share and confirmation; the initiator then
+// checks that and sends its confirmation back.
+export class RoomPasswordExchange {
+  private sharedKey: Uint8Array | null = null;
+  // The fingerprints the peer sent with its share; proven once its
+  // confirmation verifies
+  peerFingerprints: string[] = [];
+
+  private constructor(
+    readonly role: PakeRole,
+    private roomId: string,
+    private ownFingerprints: string[],
+    private w: bigint,
+    private scalar: bigint,
+    private ownElement: bigint,
+    private blinding: { M: bigint, N: bigint }
+  ) {}
+
+  static async start(password: string, roomId: string, role: PakeRole, fingerprints: string[]): Promise<RoomPasswordExchange> {
+    const encoder = new TextEncoder();
+    const blinding = await getBlindingElements();
+    const w = bytesToBigInt(await expand('w', lengthPrefixed([
+      encoder.encode(roomId),
+      encoder.encode(password.normalize('NFKC'))
+    ]), SCALAR_SIZE)) % Q;
+    const scalar = bytesToBigInt(crypto.getRandomValues(new Uint8Array(SCALAR_SIZE))) % (Q - ONE) + ONE;
+
+    // T = g^x * M^w for the initiator, S = g^y * N^w for the responder
+    const mask = role === 'initiator' ? blinding.M : blinding.N;
+    const ownElement = (modPow(G, scalar, P) * modPow(mask, w, P)) % P;
+    return new RoomPasswordExchange(role, roomId, fingerprints, w, scalar, ownElement, blinding);
+  }
+
+  // Our share, to send to the peer
+  get share(): string {
+    return elementToHex(this.ownElement);
+  }
+
+  // Takes the peer's share, and the fingerprints that came with it, and
+  // returns our key confirmation for them. Throws if the share is not a
+  // valid group element.
+  async receiveShare(peerShare: string, peerFingerprints: string[]): Promise<string> {
+    const peerElement = hexToElement(peerShare);
+    if (peerElement === null) {
+      throw new Error('Invalid password exchange message');
+    }
+
+    // Strip the peer's mask: K = (peer / mask^w)^scalar = g^(x*y)
+    const peerMask = this.role === 'initiator' ? this.blinding.N : this.blinding.M;
+    const unmasked = (peerElement * modPow(peerMask, Q - this.w, P)) % P;
+    const k = modPow(unmasked, this.scalar, P);
+
+    const [initiatorElement, responderElement] = this.role === 'initiator'
+      ? [this.ownElement, peerElement]
+      : [peerElement, this.ownElement];
+    const [initiatorFingerprints, responderFingerprints] = this.role === 'initiator'
+      ? [this.ownFingerprints, peerFingerprints]
+      : [peerFingerprints, this.ownFingerprints];
+    this.peerFingerprints = peerFingerprints;
+
+    const encoder = new TextEncoder();
+    const transcript = lengthPrefixed([
+      encoder.encode(this.roomId),
+      encoder.encode(elementToHex(initiatorElement)),
+      encoder.encode(elementToHex(responderElement)),
+      encoder.encode(elementToHex(k)),
+      encoder.encode(this.w.toString(16)),
+      encoder.encode([...initiatorFingerprints].sort().join('\n')),
+      encoder.encode([...responderFingerprints].sort().join('\n'))
+    ]);
+    this.sharedKey = new Uint8Array(await crypto.subtle.digest('SHA-256', transcript));
+
+    return this.confirmation(this.role);
+  }
+
+  // Whether the peer's confirmation proves it used the same password
+  async verify(peerConfirmation: string): Promise<boolean> {
+    const peerRole: PakeRole = this.role === 'initiator' ? 'responder' : 'initiator';
+    const expected = await this.confirmation(peerRole);
+    // Both are fixed-length hex, compared without an early exit
+    if (expected.length !== peerConfirmation.length) return false;
+    let difference = 0;
+    for (let i = 0; i < expected.length; i++) {
+      difference |= expected.charCodeAt(i) ^ peerConfirmation.charCodeAt(i);
+    }
+    return difference === 0;
+  }
+
+  private async confirmation(role: PakeRole): Promise<string> {
+    if (!this.sharedKey) {
+      throw new Error('Password exchange has no key yet');
+    }
+    const key = await crypto.subtle.importKey(
+      'raw',
+      this.sharedKey,
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const mac = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${CONTEXT}/confirm/${role}`));
+    return Array.from(new Uint8Array(mac))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+}
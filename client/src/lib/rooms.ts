@@ -0,0 +1,112 @@
+import type { CreateRoomRequest, CreatedRoom, RoomInfo } from '@shared/schema';
+
+// Room creation, inspection and pairing-code lookup against the signaling
+// server's /api/rooms endpoints
+
+// The server turned the request down, such as for making too many; the
+// message is its reason, fit to show
+export class RoomsApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'RoomsApiError';
+  }
+}
+
+async function refusal(res: Response): Promise<RoomsApiError> {
+  let message = res.statusText;
+  try {
+    message = (await res.json() as { message?: string }).message || message;
+  } catch {
+    // Not JSON; the status text will do
+  }
+  return new RoomsApiError(res.status, message);
+}
+
+export async function createRoom(options: CreateRoomRequest = {}): Promise<CreatedRoom> {
+  const res = await fetch('/api/rooms', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options),
+    credentials: 'include'
+  });
+  if (!res.ok) throw await refusal(res);
+  return res.json();
+}
+
+// The room a pairing code belongs to, or null when no room has that code
+// (it never existed, expired, or someone already joined with it)
+export async function findRoomByCode(code: string): Promise<string | null> {
+  const res = await fetch(`/api/rooms/by-code/${encodeURIComponent(code)}`, {
+    credentials: 'include'
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) throw await refusal(res);
+  const { roomId } = await res.json() as { roomId: string };
+  return roomId;
+}
+
+// Null when the room does not exist (or has been cleaned up)
+export async function inspectRoom(roomId: string): Promise<RoomInfo | null> {
+  const res = await fetch(`/api/rooms/${encodeURIComponent(roomId)}`, {
+    credentials: 'include'
+  });
+  if (res.status === 404) return null;
+  if (!res.ok) throw await refusal(res);
+  return res.json();
+}
+
+// The key this browser joins every room with; an owner who kicks us keeps
+// us out by it. The server issues it, and only so many to one address, and
+// it is kept across sessions, so reopening the link does not get around a kick.
+const CLIENT_KEY = 'client-key';
+let fallbackClientKey: string | null = null;
+
+export async function clientKey(): Promise<string> {
+  try {
+    const stored = localStorage.getItem(CLIENT_KEY);
+    if (stored) return stored;
+  } catch {
+    // Storage disabled; the key then lasts as long as this page
+    if (fallbackClientKey) return fallbackClientKey;
+  }
+
+  const res = await fetch('/api/client-keys', { method: 'POST', credentials: 'include' });
+  if (!res.ok) throw await refusal(res);
+  const { clientKey: key } = await res.json() as { clientKey: string };
+  try {
+    localStorage.setItem(CLIENT_KEY, key);
+  } catch {
+    fallbackClientKey = key;
+  }
+  return key;
+}
+
+// The server no longer knows our key (it expired, or the server lost it)
+export function forgetClientKey(): void {
+  fallbackClientKey = null;
+  try {
+    localStorage.removeItem(CLIENT_KEY);
+  } catch {
+    // Storage disabled; nothing was kept there
+  }
+}
+
+// The owner token of a room created in this tab, kept for the session so a
+// reload still lets the creator in without knocking. Never put in the link.
+const OWNER_TOKEN_PREFIX = 'room-owner:';
+
+export function rememberOwnerToken(roomId: string, ownerToken: string): void {
+  try {
+    sessionStorage.setItem(OWNER_TOKEN_PREFIX + roomId, ownerToken);
+  } catch {
+    // Storage disabled; ownership then ends with this page
+  }
+}
+
+export function recallOwnerToken(roomId: string): string | null {
+  try {
+    return sessionStorage.getItem(OWNER_TOKEN_PREFIX + roomId);
+  } catch {
+    return null;
+  }
+}
@@ -8,3 +8,11 @@ export function cn(...inputs: ClassValue[]) {
 export function randomUUID(): string {
   return crypto.randomUUID();
 }
+
+export function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`;
+}
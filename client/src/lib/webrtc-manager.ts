@@ -1,338 +1,638 @@
-import type {
-  SignalingMessage,
-  SessionDescription,
-  IceCandidate,
-  ConnectionState,
-  DEFAULT_P2P_CONFIG,
-  FileControlMessage,
-  FileMetadata,
-  SendingTransfer,
-  ReceivingTransfer,
-  serializeControlMessage,
-  deserializeControlMessage,
-  isControlMessage
+import {
+  signalingMessageSchema,
+  type SignalingMessage,
+  type PeerSignal,
+  type SealedSignal,
+  type ConnectionState,
+  type SignalingErrorCode,
+  type FileControlMessage
 } from '@shared/schema';
-import { DEFAULT_P2P_CONFIG as P2P_CONFIG } from '@shared/schema';
-
+import {
+  sealSignal,
+  openSignal,
+  AuthenticationError,
+  type LinkKeys
+} from '@/lib/link-encryption';
+import type { ShortAuthString } from '@/lib/peer-verification';
+import { PeerConnection } from '@/lib/peer-connection';
+import { clientKey, forgetClientKey } from '@/lib/rooms';
+
+// Per-peer events carry the id of the peer they came from
 export interface WebRTCManagerCallbacks {
+  // Overall state: connected while any peer is
   onConnectionStateChange: (state: ConnectionState) => void;
-  onDataChannelMessage: (message: FileControlMessage | ArrayBuffer) => void;
-  onError: (error: string) => void;
+  // A peer is in the room; its connection is being negotiated
+  onPeerJoined: (peer: PeerConnection) => void;
+  onPeerStateChange: (peerId: string, state: ConnectionState) => void;
+  onPeerLeft: (peerId: string) => void;
+  // Neither ICE restarts nor a fresh connection brought the peer back; it
+  // stays in the room, but what was under way with it has failed
+  onPeerConnectionLost: (peerId: string) => void;
+  onDataChannelMessage: (peerId: string, message: FileControlMessage | ArrayBuffer) => void;
+  onDataChannelOpen: (peerId: string) => void;
+  onDataChannelClose: (peerId: string) => void;
+  onBufferedAmountLow: (peerId: string) => void;
+  // A chunk frame failed AES-GCM authentication; its routing fields are
+  // still readable, so the transfer it claims to belong to can be failed
+  onChunkAuthFailure: (peerId: string, streamId: number, chunkIndex: number) => void;
+  // Code both users compare to confirm no one sits between them; computed
+  // from the DTLS fingerprints each time the connection is (re)established
+  onVerificationCode: (peerId: string, code: ShortAuthString) => void;
+  // Whether we own the room (hold its owner token) and whether it is locked
+  onRoomStatusChange: (status: RoomStatus) => void;
+  // Owner only: someone asks to join, or stopped asking
+  onKnock: (peerId: string) => void;
+  onKnockWithdrawn: (peerId: string) => void;
+  onError: (error: string, code?: SignalingErrorCode) => void;
+}
+
+export interface RoomStatus {
+  owner: boolean;
+  locked: boolean;
+}
+
+// The state each error from the server leaves us in. Null for errors about
+// one message, after which we stay as we are. The password codes only fail
+// connections to peers; all but PASSWORD_LOCKED come from the peers.
+const ERROR_STATES: Record<SignalingErrorCode, ConnectionState | null> = {
+  ROOM_NOT_FOUND: 'room-unavailable',
+  ROOM_EXPIRED: 'room-unavailable',
+  ROOM_FULL: 'room-full',
+  ROOM_LOCKED: 'turned-away',
+  KNOCK_REJECTED: 'turned-away',
+  KICKED: 'turned-away',
+  NOT_OWNER: null,
+  // We and the server disagree about whether we are in the room
+  NOT_IN_ROOM: 'error',
+  PEER_NOT_FOUND: null,
+  RATE_LIMITED: null,
+  BAD_MESSAGE: null,
+  SERVER_ERROR: null,
+  PASSWORD_REQUIRED: null,
+  WRONG_PASSWORD: null,
+  PASSWORD_LOCKED: null,
+  // Handled by fetching a new key; only seen when that fails too
+  UNKNOWN_CLIENT_KEY: 'error'
+};
+
+// A ping this often keeps proxies from dropping the socket while idle; the
+// server answers each, so a socket that stays silent for several intervals
+// is dead even if the browser has not noticed yet
+const KEEPALIVE_INTERVAL = 25 * 1000;
+const KEEPALIVE_TIMEOUT = 3 * KEEPALIVE_INTERVAL;
+
+// States the connection ends in: a closing socket does not turn them into
+// 'disconnected', so the UI keeps showing why
+const ENDED_STATES: ConnectionState[] = ['room-unavailable', 'room-full', 'turned-away', 'error'];
+
+// A dropped signaling socket is reopened after a delay that doubles from the
+// first to the last, and given up on after this many tries. Peer connections
+// do not need it once they are up, so transfers carry on meanwhile.
+const RECONNECT_FIRST_DELAY = 500;
+const RECONNECT_MAX_DELAY = 10 * 1000;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// Close code telling the server we mean to come back (1000 means we left)
+const RECONNECT_CLOSE_CODE = 4000;
+
+export interface ConnectOptions {
+  // From the share link; seals DataChannel messages and peer signals
+  linkKeys?: LinkKeys | null;
+  // Room password, checked with each peer before any offer is exchanged
+  password?: string | null;
+  // From creating the room; lets us in without knocking, and lets us
+  // admit, kick and lock
+  ownerToken?: string | null;
 }
 
+// Keeps the signaling socket and one PeerConnection per other peer in the
+// room (a full mesh), routing each signal to the peer it is from or for
 export class WebRTCManager {
   private ws: WebSocket | null = null;
-  private pc: RTCPeerConnection | null = null;
-  private dataChannel: RTCDataChannel | null = null;
-  private isInitiator: boolean = false;
   private roomId: string = '';
+  // Our id in the room, assigned by the server in 'joined'
+  private ownPeerId: string | null = null;
+  private peers: Map<string, PeerConnection> = new Map();
+  private state: ConnectionState = 'disconnected';
   private callbacks: WebRTCManagerCallbacks;
+  // Set when the share link carried a key: every DataChannel message and peer
+  // signal is then sealed, and anything that is not is rejected
+  private linkKeys: LinkKeys | null = null;
+  // Sealing and opening are async; these keep the signaling socket's
+  // messages in order, in both directions
+  private signalSendChain: Promise<void> = Promise.resolve();
+  private signalReceiveChain: Promise<void> = Promise.resolve();
+  // Sealed signals are numbered per peer and direction: the next number we
+  // send each peer, and the last one we opened from each
+  private nextSignalSeqs: Map<string, number> = new Map();
+  private lastSignalSeqs: Map<string, number> = new Map();
+  // One DTLS certificate for the whole session, shared by every peer
+  // connection, so re-established ones keep the same verification code
+  private certificate: RTCCertificate | null = null;
+  // Room password; never leaves this browser, only SPAKE2 messages derived
+  // from it do
+  private password: string | null = null;
+  private ownerToken: string | null = null;
+  private roomStatus: RoomStatus = { owner: false, locked: false };
+  private keepalive: ReturnType<typeof setInterval> | null = null;
+  // When the server was last heard from
+  private lastServerMessageAt = 0;
+  // From 'joined'; takes our place in the room back after the socket drops
+  private resumeToken: string | null = null;
+  private reconnectAttempts = 0;
+  // Set once we asked for a new client key, so a refused one is not fetched again and again
+  private renewedClientKey = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Messages held back while the socket is down, until we have our place
+  // back; null while connected
+  private outbox: string[] | null = null;
 
   constructor(callbacks: WebRTCManagerCallbacks) {
     this.callbacks = callbacks;
   }
 
-  async connect(roomId: string): Promise<void> {
+  async connect(roomId: string, options: ConnectOptions = {}): Promise<void> {
     this.roomId = roomId;
+    this.linkKeys = options.linkKeys ?? null;
+    this.password = options.password || null;
+    this.ownerToken = options.ownerToken || null;
+    this.ownPeerId = null;
+    this.resumeToken = null;
+    this.reconnectAttempts = 0;
+
+    try {
+      this.certificate = await RTCPeerConnection.generateCertificate({
+        name: 'ECDSA',
+        namedCurve: 'P-256'
+      } as EcKeyGenParams);
+    } catch (error) {
+      // The browser then generates one per connection
+      console.warn('[WebRTC] Could not generate a certificate:', error);
+    }
+
+    this.openSocket();
+  }
 
+  private openSocket(): void {
     // Connect to WebSocket signaling server
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
     const wsUrl = `${protocol}//${window.location.host}/ws`;
-    
-    this.ws = new WebSocket(wsUrl);
 
-    this.ws.onopen = () => {
+    const ws = new WebSocket(wsUrl);
+    this.ws = ws;
+
+    ws.onopen = () => {
       console.log('[WebRTC] WebSocket connected');
-      this.callbacks.onConnectionStateChange('connecting');
-      
-      // Join the room
-      const joinMessage: SignalingMessage = { type: 'join', roomId };
-      this.ws!.send(JSON.stringify(joinMessage));
-    };
+      this.startKeepalive();
 
-    this.ws.onmessage = async (event) => {
-      try {
-        const message: SignalingMessage = JSON.parse(event.data);
-        await this.handleSignalingMessage(message);
-      } catch (error) {
-        console.error('[WebRTC] Error handling signaling message:', error);
-        this.callbacks.onError('Failed to process signaling message');
+      if (!this.ownPeerId || !this.resumeToken) {
+        this.setState('connecting');
       }
+      void this.sendJoin(ws);
     };
 
-    this.ws.onerror = (error) => {
+    ws.onmessage = (event) => {
+      this.lastServerMessageAt = Date.now();
+      // Handled one at a time so ICE candidates never overtake their offer
+      this.signalReceiveChain = this.signalReceiveChain.then(async () => {
+        try {
+          const parsed = signalingMessageSchema.safeParse(JSON.parse(event.data));
+          if (!parsed.success) {
+            console.warn('[WebRTC] Ignoring malformed signaling message:', parsed.error.issues);
+            return;
+          }
+          await this.handleSignalingMessage(parsed.data);
+        } catch (error) {
+          console.error('[WebRTC] Error handling signaling message:', error);
+          this.callbacks.onError('Failed to process signaling message');
+        }
+      });
+    };
+
+    ws.onerror = (error) => {
       console.error('[WebRTC] WebSocket error:', error);
+      // Not an error yet if we can come back
+      if (this.canReconnect()) return;
       this.callbacks.onError('WebSocket connection error');
-      this.callbacks.onConnectionStateChange('error');
+      this.setState('error');
     };
 
-    this.ws.onclose = () => {
+    ws.onclose = () => {
       console.log('[WebRTC] WebSocket closed');
-      this.cleanup();
+      // After whatever the server sent last, which may say not to come back
+      this.signalReceiveChain = this.signalReceiveChain.then(() => this.handleSocketClosed(ws));
     };
   }
 
+  // Joins the room, or takes our place in it back after the socket dropped.
+  // The client key may first have to be fetched from the server
+  private async sendJoin(ws: WebSocket): Promise<void> {
+    let key: string;
+    try {
+      key = await clientKey();
+    } catch (error) {
+      console.error('[WebRTC] Could not get a client key:', error);
+      if (this.ws !== ws) return;
+      this.callbacks.onError(error instanceof Error ? error.message : 'Could not get a client key');
+      this.setState('error');
+      return;
+    }
+    if (this.ws !== ws) return;
+
+    const resume = this.ownPeerId && this.resumeToken
+      ? { peerId: this.ownPeerId, token: this.resumeToken }
+      : undefined;
+    this.sendNow({ type: 'join', roomId: this.roomId, clientKey: key, ownerToken: this.ownerToken ?? undefined, resume });
+  }
+
+  // Once in the room, and unless told to stay out
+  private canReconnect(): boolean {
+    return this.ownPeerId !== null
+      && this.resumeToken !== null
+      && !ENDED_STATES.includes(this.state)
+      && this.reconnectAttempts < MAX_RECONNECT_ATTEMPTS;
+  }
+
+  private handleSocketClosed(ws: WebSocket): void {
+    if (this.ws !== ws) return;
+    if (this.canReconnect()) {
+      this.reconnect();
+      return;
+    }
+    this.cleanup();
+    if (!ENDED_STATES.includes(this.state)) {
+      this.setState('disconnected');
+    }
+  }
+
+  // Peer connections stay up meanwhile; what we send them through the
+  // server waits in the outbox
+  private reconnect(): void {
+    this.dropSocket(RECONNECT_CLOSE_CODE);
+    this.outbox ??= [];
+
+    const delay = Math.min(RECONNECT_FIRST_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+    this.reconnectAttempts++;
+    console.log(`[WebRTC] Reconnecting to the signaling server in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.openSocket();
+    }, delay);
+  }
+
+  // Stops listening to the socket and closes it
+  private dropSocket(code: number): void {
+    if (this.keepalive) {
+      clearInterval(this.keepalive);
+      this.keepalive = null;
+    }
+
+    const ws = this.ws;
+    this.ws = null;
+    if (!ws) return;
+    ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+    if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+      ws.close(code);
+    }
+  }
+
+  private startKeepalive(): void {
+    this.lastServerMessageAt = Date.now();
+    this.keepalive = setInterval(() => {
+      if (Date.now() - this.lastServerMessageAt > KEEPALIVE_TIMEOUT) {
+        // Closing a dead socket can take the browser minutes to notice
+        console.warn('[WebRTC] Signaling server stopped answering');
+        if (this.ws) {
+          this.handleSocketClosed(this.ws);
+        }
+        return;
+      }
+      this.sendNow({ type: 'ping' });
+    }, KEEPALIVE_INTERVAL);
+  }
+
   private async handleSignalingMessage(message: SignalingMessage): Promise<void> {
     console.log('[WebRTC] Received signaling message:', message.type);
 
     switch (message.type) {
-      case 'peer-joined':
-        // We are the initiator - create offer
-        this.isInitiator = true;
-        await this.createPeerConnection();
-        await this.createOffer();
+      case 'pong':
         break;
 
-      case 'offer':
-        // We are the answerer - create answer
-        this.isInitiator = false;
-        await this.createPeerConnection();
-        await this.handleOffer(message.offer);
+      case 'knocking':
+        this.setState('knocking');
         break;
 
-      case 'answer':
-        await this.handleAnswer(message.answer);
+      case 'joined':
+        // Back after the socket dropped, but too late to resume: the peers
+        // we had may have left meanwhile, and the ones here connect anew
+        if (this.outbox) {
+          this.outbox = null;
+          this.dropPeers();
+        }
+        this.reconnectAttempts = 0;
+        this.renewedClientKey = false;
+
+        // The peers already here each start a connection to us
+        this.ownPeerId = message.peerId;
+        this.resumeToken = message.resumeToken;
+        this.updateRoomStatus({ owner: message.owner, locked: message.locked });
+        for (const peerId of message.peers) {
+          this.addPeer(peerId, false);
+        }
+        this.updateState();
         break;
 
-      case 'ice-candidate':
-        await this.handleIceCandidate(message.candidate);
+      case 'resumed': {
+        // Our place was kept; send what waited for the socket
+        console.log('[WebRTC] Resumed our place in the room');
+        this.reconnectAttempts = 0;
+        this.renewedClientKey = false;
+        const outbox = this.outbox ?? [];
+        this.outbox = null;
+        for (const data of outbox) {
+          this.ws?.send(data);
+        }
+        // ICE restarts waited for the server
+        for (const peer of Array.from(this.peers.values())) {
+          peer.resumeIceRestarts();
+        }
         break;
+      }
 
-      case 'peer-left':
-        this.callbacks.onConnectionStateChange('peer-left');
-        this.cleanup();
+      case 'knock':
+        this.callbacks.onKnock(message.peerId);
         break;
 
-      case 'error':
-        this.callbacks.onError(message.message);
-        this.callbacks.onConnectionStateChange('error');
+      case 'knock-withdrawn':
+        this.callbacks.onKnockWithdrawn(message.peerId);
         break;
-    }
-  }
 
-  private async createPeerConnection(): Promise<void> {
-    // Create RTCPeerConnection with STUN servers
-    this.pc = new RTCPeerConnection({
-      iceServers: P2P_CONFIG.iceServers.map(server => ({
-        urls: server.urls,
-        username: server.username,
-        credential: server.credential
-      }))
-    });
+      case 'room-locked':
+        this.updateRoomStatus({ ...this.roomStatus, locked: message.locked });
+        break;
 
-    // ICE candidate handler
-    this.pc.onicecandidate = (event) => {
-      if (event.candidate && this.ws && this.ws.readyState === WebSocket.OPEN) {
-        const candidate: IceCandidate = {
-          candidate: event.candidate.candidate,
-          sdpMid: event.candidate.sdpMid,
-          sdpMLineIndex: event.candidate.sdpMLineIndex,
-          usernameFragment: event.candidate.usernameFragment
-        };
-        
-        const message: SignalingMessage = { 
-          type: 'ice-candidate', 
-          candidate 
-        };
-        this.ws.send(JSON.stringify(message));
+      case 'peer-joined': {
+        // We are the initiator - check the password, then create offer
+        const peer = this.addPeer(message.peerId, true);
+        await peer.startNegotiation();
+        break;
       }
-    };
 
-    // Connection state handler
-    this.pc.onconnectionstatechange = () => {
-      console.log('[WebRTC] Connection state:', this.pc?.connectionState);
-      
-      switch (this.pc?.connectionState) {
-        case 'connected':
-          this.callbacks.onConnectionStateChange('connected');
+      case 'sealed-signal':
+        await this.handleSealedSignal(message);
+        break;
+
+      case 'offer':
+      case 'answer':
+      case 'ice-candidate':
+      case 'pake-share':
+      case 'pake-confirm':
+      case 'pake-failed':
+      case 'pake-retry':
+        // Unsealed SDP could come from anyone who got between the peers
+        if (this.linkKeys) {
+          this.callbacks.onError('Your peer is not using end-to-end encryption. Both of you need to open the same share link.');
           break;
-        case 'disconnected':
-        case 'failed':
-          this.callbacks.onConnectionStateChange('error');
+        }
+        await this.routeSignal(message.from, message);
+        break;
+
+      case 'peer-left':
+        this.removePeer(message.peerId);
+        break;
+
+      case 'error': {
+        // Ends the password checks still running, each peer reporting its own
+        if (message.code === 'PASSWORD_LOCKED') {
+          this.peers.forEach(peer => peer.handlePasswordLocked(message.message));
           break;
-        case 'closed':
-          this.callbacks.onConnectionStateChange('disconnected');
+        }
+        // Our key expired or was never issued here; join once more with a new one
+        if (message.code === 'UNKNOWN_CLIENT_KEY' && !this.renewedClientKey && this.ws) {
+          this.renewedClientKey = true;
+          forgetClientKey();
+          void this.sendJoin(this.ws);
           break;
+        }
+        this.callbacks.onError(message.message, message.code);
+        const state = ERROR_STATES[message.code];
+        if (state) {
+          this.setState(state);
+        }
+        break;
       }
-    };
-
-    // If initiator, create data channel
-    if (this.isInitiator) {
-      this.createDataChannel();
-    } else {
-      // If answerer, wait for data channel
-      this.pc.ondatachannel = (event) => {
-        this.dataChannel = event.channel;
-        this.setupDataChannel();
-      };
     }
   }
 
-  private createDataChannel(): void {
-    if (!this.pc) return;
+  private async handleSealedSignal(envelope: SealedSignal & { from?: string }): Promise<void> {
+    if (!this.linkKeys) {
+      this.callbacks.onError('Your peer is using end-to-end encryption. Open the full share link, including the part after #, to connect.');
+      return;
+    }
+    if (!envelope.from || !this.ownPeerId) return;
 
-    this.dataChannel = this.pc.createDataChannel('file', {
-      ordered: true
-    });
-    
-    this.setupDataChannel();
+    const from = envelope.from;
+    let signal: PeerSignal;
+    try {
+      const route = { from, to: this.ownPeerId };
+      signal = await openSignal(this.linkKeys.signalingKey, envelope, route, this.lastSignalSeqs.get(from) ?? -1);
+      this.lastSignalSeqs.set(from, envelope.seq);
+    } catch (error) {
+      console.error('[WebRTC] Error opening signal:', error);
+      this.callbacks.onError(error instanceof AuthenticationError
+        ? 'A signaling message failed authentication. Make sure you both opened the same share link.'
+        : 'Failed to process signaling message');
+      return;
+    }
+    await this.routeSignal(envelope.from, signal);
   }
 
-  private setupDataChannel(): void {
-    if (!this.dataChannel) return;
+  private async routeSignal(from: string | undefined, signal: PeerSignal): Promise<void> {
+    const peer = from ? this.peers.get(from) : undefined;
+    if (!peer) {
+      console.warn('[WebRTC] Signal from unknown peer:', from);
+      return;
+    }
+    await peer.handleSignal(signal);
+  }
 
-    this.dataChannel.binaryType = 'arraybuffer';
+  private addPeer(peerId: string, isInitiator: boolean): PeerConnection {
+    // A peer that rejoined under the same id starts over
+    this.peers.get(peerId)?.close();
+
+    // Events from a connection that has since been replaced or closed are
+    // dropped, so they cannot touch the state of its successor
+    const live = () => this.peers.get(peerId) === peer;
+    const peer: PeerConnection = new PeerConnection(peerId, isInitiator, {
+      roomId: this.roomId,
+      localPeerId: this.ownPeerId ?? '',
+      linkKeys: this.linkKeys,
+      certificate: this.certificate,
+      getPassword: () => this.password,
+      sendSignal: (signal) => this.sendSignal(peerId, signal),
+      signalingReady: () => this.ws?.readyState === WebSocket.OPEN && !this.outbox
+    }, {
+      onStateChange: (state) => {
+        if (!live()) return;
+        this.callbacks.onPeerStateChange(peerId, state);
+        this.updateState();
+      },
+      onDataChannelMessage: (message) => live() && this.callbacks.onDataChannelMessage(peerId, message),
+      onDataChannelOpen: () => live() && this.callbacks.onDataChannelOpen(peerId),
+      onDataChannelClose: () => live() && this.callbacks.onDataChannelClose(peerId),
+      onBufferedAmountLow: () => live() && this.callbacks.onBufferedAmountLow(peerId),
+      onChunkAuthFailure: (streamId, chunkIndex) => live() && this.callbacks.onChunkAuthFailure(peerId, streamId, chunkIndex),
+      onVerificationCode: (code) => live() && this.callbacks.onVerificationCode(peerId, code),
+      onError: (error, code) => live() && this.callbacks.onError(error, code),
+      onConnectionLost: () => live() && this.callbacks.onPeerConnectionLost(peerId)
+    });
 
-    this.dataChannel.onopen = () => {
-      console.log('[WebRTC] DataChannel opened');
-      this.callbacks.onConnectionStateChange('connected');
-    };
+    this.peers.set(peerId, peer);
+    this.callbacks.onPeerJoined(peer);
+    this.updateState();
+    return peer;
+  }
 
-    this.dataChannel.onmessage = (event) => {
-      // Check if it's a control message (JSON string) or chunk (ArrayBuffer)
-      if (typeof event.data === 'string') {
-        try {
-          const controlMessage: FileControlMessage = JSON.parse(event.data);
-          this.callbacks.onDataChannelMessage(controlMessage);
-        } catch (error) {
-          console.error('[WebRTC] Error parsing control message:', error);
-        }
-      } else if (event.data instanceof ArrayBuffer) {
-        this.callbacks.onDataChannelMessage(event.data);
-      }
-    };
+  private removePeer(peerId: string): void {
+    const peer = this.peers.get(peerId);
+    if (!peer) return;
 
-    this.dataChannel.onerror = (error) => {
-      console.error('[WebRTC] DataChannel error:', error);
-      this.callbacks.onError('Data channel error');
-    };
+    this.peers.delete(peerId);
+    this.nextSignalSeqs.delete(peerId);
+    this.lastSignalSeqs.delete(peerId);
+    peer.close();
+    this.callbacks.onPeerLeft(peerId);
 
-    this.dataChannel.onclose = () => {
-      console.log('[WebRTC] DataChannel closed');
-      this.callbacks.onConnectionStateChange('disconnected');
-    };
+    if (this.peers.size === 0) {
+      this.setState('peer-left');
+    } else {
+      this.updateState();
+    }
   }
 
-  private async createOffer(): Promise<void> {
-    if (!this.pc) return;
-
-    try {
-      const offer = await this.pc.createOffer();
-      await this.pc.setLocalDescription(offer);
-
-      const sessionDesc: SessionDescription = {
-        type: offer.type as 'offer',
-        sdp: offer.sdp!
-      };
-
-      const message: SignalingMessage = { 
-        type: 'offer', 
-        offer: sessionDesc 
-      };
-      
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify(message));
-      }
-    } catch (error) {
-      console.error('[WebRTC] Error creating offer:', error);
-      this.callbacks.onError('Failed to create offer');
+  // Forgets every peer without marking the room as left
+  private dropPeers(): void {
+    const peers = Array.from(this.peers.entries());
+    this.peers.clear();
+    this.nextSignalSeqs.clear();
+    this.lastSignalSeqs.clear();
+    for (const [peerId, peer] of peers) {
+      peer.close();
+      this.callbacks.onPeerLeft(peerId);
     }
   }
 
-  private async handleOffer(offer: SessionDescription): Promise<void> {
-    if (!this.pc) return;
-
-    try {
-      await this.pc.setRemoteDescription(new RTCSessionDescription(offer));
-      
-      const answer = await this.pc.createAnswer();
-      await this.pc.setLocalDescription(answer);
-
-      const sessionDesc: SessionDescription = {
-        type: answer.type as 'answer',
-        sdp: answer.sdp!
-      };
-
-      const message: SignalingMessage = { 
-        type: 'answer', 
-        answer: sessionDesc 
-      };
-      
-      if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify(message));
-      }
-    } catch (error) {
-      console.error('[WebRTC] Error handling offer:', error);
-      this.callbacks.onError('Failed to handle offer');
+  // Connected while any peer is, and reconnecting while any peer we had is;
+  // a failed password check only shows as an error when no one else is
+  // connected
+  private updateState(): void {
+    const states = Array.from(this.peers.values()).map(peer => peer.getState());
+    if (states.includes('connected')) {
+      this.setState('connected');
+    } else if (states.includes('reconnecting')) {
+      this.setState('reconnecting');
+    } else if (states.includes('error')) {
+      this.setState('error');
+    } else if (states.length > 0 || this.state !== 'peer-left') {
+      this.setState('connecting');
     }
   }
 
-  private async handleAnswer(answer: SessionDescription): Promise<void> {
-    if (!this.pc) return;
+  private setState(state: ConnectionState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.callbacks.onConnectionStateChange(state);
+  }
 
-    try {
-      await this.pc.setRemoteDescription(new RTCSessionDescription(answer));
-    } catch (error) {
-      console.error('[WebRTC] Error handling answer:', error);
-      this.callbacks.onError('Failed to handle answer');
-    }
+  private updateRoomStatus(status: RoomStatus): void {
+    this.roomStatus = status;
+    this.callbacks.onRoomStatusChange(status);
   }
 
-  private async handleIceCandidate(candidate: IceCandidate): Promise<void> {
-    if (!this.pc) return;
+  // Owner only: lets a knocking client in, or turns it away
+  answerKnock(peerId: string, admit: boolean): void {
+    this.sendMessage({ type: 'knock-response', peerId, admit });
+  }
 
-    try {
-      const iceCandidate = new RTCIceCandidate({
-        candidate: candidate.candidate,
-        sdpMid: candidate.sdpMid,
-        sdpMLineIndex: candidate.sdpMLineIndex
-      });
-      
-      await this.pc.addIceCandidate(iceCandidate);
-    } catch (error) {
-      console.error('[WebRTC] Error adding ICE candidate:', error);
-    }
+  // Owner only: a locked room turns away every new join
+  setRoomLocked(locked: boolean): void {
+    this.sendMessage({ type: 'lock-room', locked });
+  }
+
+  // Owner only: disconnects a peer and keeps it from coming back
+  kickPeer(peerId: string): void {
+    this.sendMessage({ type: 'kick', peerId });
   }
 
-  sendControlMessage(message: FileControlMessage): void {
-    if (this.dataChannel && this.dataChannel.readyState === 'open') {
-      this.dataChannel.send(JSON.stringify(message));
+  // Held back while the socket is down
+  private sendMessage(message: SignalingMessage): void {
+    if (this.outbox) {
+      this.outbox.push(JSON.stringify(message));
+      return;
     }
+    this.sendNow(message);
   }
 
-  sendChunk(chunk: ArrayBuffer): void {
-    if (this.dataChannel && this.dataChannel.readyState === 'open') {
-      this.dataChannel.send(chunk);
+  private sendNow(message: SignalingMessage): void {
+    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
     }
   }
 
-  getBufferedAmount(): number {
-    return this.dataChannel?.bufferedAmount || 0;
+  // After a failed password check, tries again with another password while
+  // staying in the room; the peers that refused us run the exchange anew
+  retryPassword(password: string): void {
+    this.password = password || null;
+    for (const peer of Array.from(this.peers.values())) {
+      if (peer.getState() === 'error') {
+        peer.retryPassword();
+      }
+    }
   }
 
-  isConnected(): boolean {
-    return this.dataChannel?.readyState === 'open';
+  // Sends to one peer through the server, sealed when there is a link key
+  private sendSignal(to: string, signal: PeerSignal): void {
+    const keys = this.linkKeys;
+    const from = this.ownPeerId;
+    this.signalSendChain = this.signalSendChain
+      .then(async () => {
+        if (!from) return;
+        let message: SignalingMessage;
+        if (keys) {
+          const seq = this.nextSignalSeqs.get(to) ?? 0;
+          this.nextSignalSeqs.set(to, seq + 1);
+          message = { ...await sealSignal(keys.signalingKey, signal, { from, to }, seq), to };
+        } else {
+          message = { ...signal, to };
+        }
+        this.sendMessage(message);
+      })
+      .catch(error => {
+        console.error('[WebRTC] Error sending signal:', error);
+        this.callbacks.onError('Failed to send signaling message');
+      });
   }
 
   cleanup(): void {
-    if (this.dataChannel) {
-      this.dataChannel.close();
-      this.dataChannel = null;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
-
-    if (this.pc) {
-      this.pc.close();
-      this.pc = null;
+    this.outbox = null;
+
+    const peers = Array.from(this.peers.values());
+    this.peers.clear();
+    this.nextSignalSeqs.clear();
+    this.lastSignalSeqs.clear();
+    for (const peer of peers) {
+      peer.close();
     }
 
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      this.ws.close();
-      this.ws = null;
-    }
+    // A normal close: the server lets our peers know at once
+    this.dropSocket(1000);
   }
 
   disconnect(): void {
     this.cleanup();
-    this.callbacks.onConnectionStateChange('disconnected');
+    this.setState('disconnected');
   }
 }
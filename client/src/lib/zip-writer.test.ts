@@ -0,0 +1,156 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createZip, writeZip, type ZipEntry } from './zip-writer';
+
+const FOUR_GIB = 2 ** 32;
+
+// A Blob of the given size that reads as empty, so the headers of a huge
+// entry can be checked without the data
+function hugeBlob(size: number): Blob {
+  return {
+    size,
+    stream: () => new ReadableStream({ start: controller => controller.close() })
+  } as unknown as Blob;
+}
+
+// The archive's headers, with each entry's data left out and only counted
+async function writeHeaders(entries: ZipEntry[]): Promise<{ bytes: Uint8Array, dataSize: number }> {
+  const parts: Uint8Array[] = [];
+  let dataSize = 0;
+  const writable = {
+    write: async (part: BlobPart) => {
+      if (part instanceof Uint8Array) parts.push(part);
+      else dataSize += (part as Blob).size;
+    },
+    close: async () => {},
+    abort: async () => {}
+  } as unknown as FileSystemWritableFileStream;
+  await writeZip(entries, writable);
+
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return { bytes, dataSize };
+}
+
+function getUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+// Offsets of every record with the given signature
+function findRecords(bytes: Uint8Array, signature: number): number[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const found: number[] = [];
+  for (let i = 0; i + 4 <= bytes.length; i++) {
+    if (view.getUint32(i, true) === signature) found.push(i);
+  }
+  return found;
+}
+
+test('createZip stores files and directories with their CRC-32 and offsets', async () => {
+  const archive = await createZip([
+    { path: 'hello.txt', data: new Blob(['hello']) },
+    { path: 'empty' },
+    { path: 'empty/world.txt', data: new Blob(['world!']) }
+  ]);
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+
+  assert.deepEqual(findRecords(bytes, 0x04034b50), [0, 44, 80]);
+  assert.equal(view.getUint32(14, true), 0x3610a686); // CRC-32 of "hello"
+  assert.equal(view.getUint32(18, true), 5);
+  assert.equal(decoder.decode(bytes.subarray(30, 39)), 'hello.txt');
+  assert.equal(decoder.decode(bytes.subarray(39, 44)), 'hello');
+  assert.equal(decoder.decode(bytes.subarray(74, 80)), 'empty/');
+
+  const central = findRecords(bytes, 0x02014b50);
+  assert.equal(central.length, 3);
+  assert.deepEqual(central.map(offset => view.getUint32(offset + 42, true)), [0, 44, 80]);
+  assert.equal(view.getUint32(central[1] + 38, true), 0x10); // directory
+  for (const offset of central) {
+    assert.equal(view.getUint16(offset + 30, true), 0); // no ZIP64 extra
+  }
+
+  const [end] = findRecords(bytes, 0x06054b50);
+  assert.equal(end, bytes.length - 22);
+  assert.equal(view.getUint16(end + 10, true), 3);
+  assert.equal(view.getUint32(end + 16, true), central[0]);
+  assert.deepEqual(findRecords(bytes, 0x06064b50), []);
+});
+
+test('createZip numbers entries that land on the same path', async () => {
+  const archive = await createZip([
+    { path: 'a.txt', data: new Blob(['1']) },
+    { path: 'A.txt', data: new Blob(['2']) },
+    { path: 'notes', data: new Blob(['3']) },
+    { path: 'notes', data: new Blob(['4']) }
+  ]);
+  const bytes = new Uint8Array(await archive.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const names = findRecords(bytes, 0x02014b50).map(offset =>
+    new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + view.getUint16(offset + 28, true)))
+  );
+  assert.deepEqual(names, ['a.txt', 'A (2).txt', 'notes', 'notes (2)']);
+});
+
+test('writeZip adds ZIP64 fields for sizes and offsets past 4 GiB', async () => {
+  const hugeSize = FOUR_GIB + 10;
+  const { bytes, dataSize } = await writeHeaders([
+    { path: 'huge.bin', data: hugeBlob(hugeSize) },
+    { path: 'small.txt', data: new Blob(['small']) }
+  ]);
+  const view = new DataView(bytes.buffer);
+  assert.equal(dataSize, hugeSize + 5);
+
+  // The huge entry: sizes only in its ZIP64 extra field
+  const [hugeLocal, smallLocal] = findRecords(bytes, 0x04034b50);
+  assert.equal(view.getUint16(hugeLocal + 4, true), 45);
+  assert.equal(view.getUint32(hugeLocal + 18, true), 0xffffffff);
+  assert.equal(view.getUint32(hugeLocal + 22, true), 0xffffffff);
+  assert.equal(view.getUint16(hugeLocal + 28, true), 20);
+  const localExtra = hugeLocal + 30 + 'huge.bin'.length;
+  assert.equal(view.getUint16(localExtra, true), 0x0001);
+  assert.equal(getUint64(view, localExtra + 4), hugeSize);
+  assert.equal(getUint64(view, localExtra + 12), hugeSize);
+  // The small one follows it as a classic header
+  assert.equal(view.getUint16(smallLocal + 4, true), 20);
+  assert.equal(view.getUint16(smallLocal + 28, true), 0);
+
+  const [hugeCentral, smallCentral] = findRecords(bytes, 0x02014b50);
+  const hugeExtra = hugeCentral + 46 + 'huge.bin'.length;
+  assert.equal(view.getUint32(hugeCentral + 20, true), 0xffffffff);
+  assert.equal(view.getUint32(hugeCentral + 42, true), 0);
+  assert.equal(view.getUint16(hugeExtra + 2, true), 16);
+  assert.equal(getUint64(view, hugeExtra + 4), hugeSize);
+  assert.equal(getUint64(view, hugeExtra + 12), hugeSize);
+
+  // The small entry starts past 4 GiB, so only its offset is in the extra field
+  const smallOffset = 30 + 'huge.bin'.length + 20 + hugeSize;
+  const smallExtra = smallCentral + 46 + 'small.txt'.length;
+  assert.equal(view.getUint32(smallCentral + 20, true), 5);
+  assert.equal(view.getUint32(smallCentral + 42, true), 0xffffffff);
+  assert.equal(view.getUint16(smallExtra, true), 0x0001);
+  assert.equal(view.getUint16(smallExtra + 2, true), 8);
+  assert.equal(getUint64(view, smallExtra + 4), smallOffset);
+
+  // ZIP64 end of central directory, its locator, then the classic record
+  const [zip64End] = findRecords(bytes, 0x06064b50);
+  const directoryOffset = smallOffset + 30 + 'small.txt'.length + 5;
+  const directorySize = zip64End - hugeCentral;
+  assert.equal(getUint64(view, zip64End + 32), 2);
+  assert.equal(getUint64(view, zip64End + 40), directorySize);
+  assert.equal(getUint64(view, zip64End + 48), directoryOffset);
+
+  const [locator] = findRecords(bytes, 0x07064b50);
+  assert.equal(locator, zip64End + 56);
+  assert.equal(getUint64(view, locator + 8), directoryOffset + directorySize);
+
+  const [end] = findRecords(bytes, 0x06054b50);
+  assert.equal(end, locator + 20);
+  assert.equal(view.getUint16(end + 10, true), 2);
+  assert.equal(view.getUint32(end + 16, true), 0xffffffff);
+});
@@ -0,0 +1,277 @@
+// Minimal ZIP writer (stored, no compression) that runs entirely in the browser.
+//
+// The archive is produced as a sequence of parts: small generated headers
+// plus the original file Blobs. The parts are either streamed into a file on
+// disk or assembled into a Blob that only references them, so the file
+// contents are never copied and building an archive does not double memory
+// use. Each file is streamed once to compute its CRC-32. ZIP64 records are
+// added whenever a size, offset or entry count exceeds the classic format's
+// limits.
+
+export interface ZipEntry {
+  path: string; // forward-slash separated, relative to the archive root
+  data?: Blob; // absent for (empty) directories
+  lastModified?: number;
+}
+
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+const ZIP64_VERSION = 45;
+const DEFAULT_VERSION = 20;
+const UTF8_FLAG = 0x0800;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+async function crc32(blob: Blob): Promise<number> {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) {
+      crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+    }
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 0x100000000, true);
+  view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+}
+
+function toDosDateTime(timestamp: number): { time: number, date: number } {
+  const d = new Date(timestamp);
+  const year = Math.min(Math.max(d.getFullYear(), 1980), 2107);
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+  };
+}
+
+interface CentralRecord {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  isDirectory: boolean;
+  time: number;
+  date: number;
+}
+
+function localHeader(record: CentralRecord): Uint8Array {
+  const zip64 = record.size >= UINT32_MAX;
+  const extraLength = zip64 ? 20 : 0;
+  const header = new Uint8Array(30 + record.name.length + extraLength);
+  const view = new DataView(header.buffer);
+
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, zip64 ? ZIP64_VERSION : DEFAULT_VERSION, true);
+  view.setUint16(6, UTF8_FLAG, true);
+  view.setUint16(8, 0, true); // stored
+  view.setUint16(10, record.time, true);
+  view.setUint16(12, record.date, true);
+  view.setUint32(14, record.crc, true);
+  view.setUint32(18, zip64 ? UINT32_MAX : record.size, true);
+  view.setUint32(22, zip64 ? UINT32_MAX : record.size, true);
+  view.setUint16(26, record.name.length, true);
+  view.setUint16(28, extraLength, true);
+  header.set(record.name, 30);
+
+  if (zip64) {
+    const extra = 30 + record.name.length;
+    view.setUint16(extra, 0x0001, true);
+    view.setUint16(extra + 2, 16, true);
+    setUint64(view, extra + 4, record.size);
+    setUint64(view, extra + 12, record.size);
+  }
+
+  return header;
+}
+
+function centralHeader(record: CentralRecord): Uint8Array {
+  const sizeInZip64 = record.size >= UINT32_MAX;
+  const offsetInZip64 = record.offset >= UINT32_MAX;
+  const zip64Fields = (sizeInZip64 ? 2 : 0) + (offsetInZip64 ? 1 : 0);
+  const extraLength = zip64Fields > 0 ? 4 + zip64Fields * 8 : 0;
+  const header = new Uint8Array(46 + record.name.length + extraLength);
+  const view = new DataView(header.buffer);
+  const version = zip64Fields > 0 ? ZIP64_VERSION : DEFAULT_VERSION;
+
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, version, true);
+  view.setUint16(6, version, true);
+  view.setUint16(8, UTF8_FLAG, true);
+  view.setUint16(10, 0, true); // stored
+  view.setUint16(12, record.time, true);
+  view.setUint16(14, record.date, true);
+  view.setUint32(16, record.crc, true);
+  view.setUint32(20, sizeInZip64 ? UINT32_MAX : record.size, true);
+  view.setUint32(24, sizeInZip64 ? UINT32_MAX : record.size, true);
+  view.setUint16(28, record.name.length, true);
+  view.setUint16(30, extraLength, true);
+  view.setUint16(32, 0, true); // comment length
+  view.setUint16(34, 0, true); // disk number
+  view.setUint16(36, 0, true); // internal attributes
+  view.setUint32(38, record.isDirectory ? 0x10 : 0, true); // MS-DOS directory bit
+  view.setUint32(42, offsetInZip64 ? UINT32_MAX : record.offset, true);
+  header.set(record.name, 46);
+
+  if (zip64Fields > 0) {
+    let extra = 46 + record.name.length;
+    view.setUint16(extra, 0x0001, true);
+    view.setUint16(extra + 2, zip64Fields * 8, true);
+    extra += 4;
+    if (sizeInZip64) {
+      setUint64(view, extra, record.size);
+      setUint64(view, extra + 8, record.size);
+      extra += 16;
+    }
+    if (offsetInZip64) {
+      setUint64(view, extra, record.offset);
+    }
+  }
+
+  return header;
+}
+
+function endOfCentralDirectory(entryCount: number, directoryOffset: number, directorySize: number): Uint8Array[] {
+  const needsZip64 = entryCount >= UINT16_MAX
+    || directoryOffset >= UINT32_MAX
+    || directorySize >= UINT32_MAX;
+  const records: Uint8Array[] = [];
+
+  if (needsZip64) {
+    const zip64End = new Uint8Array(56);
+    const endView = new DataView(zip64End.buffer);
+    endView.setUint32(0, 0x06064b50, true);
+    setUint64(endView, 4, 44); // size of the remaining record
+    endView.setUint16(12, ZIP64_VERSION, true);
+    endView.setUint16(14, ZIP64_VERSION, true);
+    endView.setUint32(16, 0, true);
+    endView.setUint32(20, 0, true);
+    setUint64(endView, 24, entryCount);
+    setUint64(endView, 32, entryCount);
+    setUint64(endView, 40, directorySize);
+    setUint64(endView, 48, directoryOffset);
+
+    const locator = new Uint8Array(20);
+    const locatorView = new DataView(locator.buffer);
+    locatorView.setUint32(0, 0x07064b50, true);
+    locatorView.setUint32(4, 0, true);
+    setUint64(locatorView, 8, directoryOffset + directorySize);
+    locatorView.setUint32(16, 1, true);
+
+    records.push(zip64End, locator);
+  }
+
+  const end = new Uint8Array(22);
+  const view = new DataView(end.buffer);
+  view.setUint32(0, 0x06054b50, true);
+  view.setUint16(4, 0, true);
+  view.setUint16(6, 0, true);
+  view.setUint16(8, Math.min(entryCount, UINT16_MAX), true);
+  view.setUint16(10, Math.min(entryCount, UINT16_MAX), true);
+  view.setUint32(12, Math.min(directorySize, UINT32_MAX), true);
+  view.setUint32(16, Math.min(directoryOffset, UINT32_MAX), true);
+  view.setUint16(20, 0, true);
+  records.push(end);
+
+  return records;
+}
+
+// Entries that would land on the same path get a " (2)", " (3)", ...
+// suffix before the extension so none of them is shadowed
+function uniquePaths(entries: ZipEntry[]): string[] {
+  const used = new Set<string>();
+  return entries.map(entry => {
+    const path = entry.path.replace(/^\/+/, '');
+    let candidate = path;
+    for (let n = 2; used.has(candidate.toLowerCase()); n++) {
+      const dot = path.lastIndexOf('.');
+      const slash = path.lastIndexOf('/');
+      candidate = dot > slash + 1
+        ? `${path.slice(0, dot)} (${n})${path.slice(dot)}`
+        : `${path} (${n})`;
+    }
+    used.add(candidate.toLowerCase());
+    return candidate;
+  });
+}
+
+async function* zipParts(entries: ZipEntry[]): AsyncGenerator<BlobPart> {
+  const encoder = new TextEncoder();
+  const paths = uniquePaths(entries);
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const isDirectory = !entry.data;
+    const path = paths[i];
+    const { time, date } = toDosDateTime(entry.lastModified ?? Date.now());
+
+    const record: CentralRecord = {
+      name: encoder.encode(isDirectory && !path.endsWith('/') ? `${path}/` : path),
+      crc: entry.data ? await crc32(entry.data) : 0,
+      size: entry.data?.size ?? 0,
+      offset,
+      isDirectory,
+      time,
+      date
+    };
+
+    const header = localHeader(record);
+    yield header;
+    if (entry.data) {
+      yield entry.data;
+    }
+
+    offset += header.length + record.size;
+    records.push(record);
+  }
+
+  const directoryOffset = offset;
+  let directorySize = 0;
+  for (const record of records) {
+    const header = centralHeader(record);
+    yield header;
+    directorySize += header.length;
+  }
+
+  yield* endOfCentralDirectory(records.length, directoryOffset, directorySize);
+}
+
+// Builds the archive as a Blob that references the entries' data
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const parts: BlobPart[] = [];
+  for await (const part of zipParts(entries)) {
+    parts.push(part);
+  }
+  return new Blob(parts, { type: 'application/zip' });
+}
+
+// Streams the archive straight into a file, closing it when done
+export async function writeZip(entries: ZipEntry[], writable: FileSystemWritableFileStream): Promise<void> {
+  try {
+    for await (const part of zipParts(entries)) {
+      await writable.write(part);
+    }
+    await writable.close();
+  } catch (error) {
+    await writable.abort();
+    throw error;
+  }
+}
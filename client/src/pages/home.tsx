@@ -1,54 +1,159 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { RoomManager } from '@/components/room-manager';
 import { ConnectionStatus } from '@/components/connection-status';
+import { PeerList, peerLabel, type PeerSummary } from '@/components/peer-list';
+import { JoinRequests } from '@/components/join-requests';
 import { FileDropZone } from '@/components/file-drop-zone';
 import { TransferCard } from '@/components/transfer-card';
-import { DownloadSection } from '@/components/download-section';
+import { DownloadSection, type CompletedFile } from '@/components/download-section';
+import { ReceiveLocation } from '@/components/receive-location';
+import { IncomingOfferDialog } from '@/components/incoming-offer-dialog';
 import { useToast } from '@/hooks/use-toast';
-import { WebRTCManager } from '@/lib/webrtc-manager';
-import { FileTransferManager } from '@/lib/file-transfer-manager';
-import type { ConnectionState, FileTransfer, FileControlMessage } from '@shared/schema';
+import { WebRTCManager, type RoomStatus } from '@/lib/webrtc-manager';
+import { recallOwnerToken } from '@/lib/rooms';
+import { FileTransferManager, type FileTransferCallbacks } from '@/lib/file-transfer-manager';
+import type { SelectedEntry } from '@/lib/folder-entries';
+import { registerDownloadWorker, supportsDirectoryPicker, pickDownloadDirectory } from '@/lib/receive-sinks';
+import { readLinkSecret, deriveLinkKeys } from '@/lib/link-encryption';
+import type { ConnectionState, FileTransfer, FileControlMessage, SignalingErrorCode } from '@shared/schema';
+
+// Toast titles for errors the server or peer reported with a code
+const ERROR_TITLES: Record<SignalingErrorCode, string> = {
+  ROOM_NOT_FOUND: 'Room not found',
+  ROOM_EXPIRED: 'Room expired',
+  ROOM_FULL: 'Room is full',
+  ROOM_LOCKED: 'Room locked',
+  KNOCK_REJECTED: 'Not let in',
+  KICKED: 'Removed from room',
+  NOT_OWNER: 'Not allowed',
+  NOT_IN_ROOM: 'Not in the room',
+  PEER_NOT_FOUND: 'Peer gone',
+  RATE_LIMITED: 'Slow down',
+  BAD_MESSAGE: 'Message rejected',
+  SERVER_ERROR: 'Server error',
+  PASSWORD_REQUIRED: 'Room password',
+  WRONG_PASSWORD: 'Room password',
+  PASSWORD_LOCKED: 'Room password',
+  UNKNOWN_CLIENT_KEY: 'Could not join'
+};
 
 export default function Home() {
   const { toast } = useToast();
   
   const [roomId, setRoomId] = useState<string>('');
+  // Secret from the share link's #k= fragment; enables end-to-end encryption
+  const [linkSecret, setLinkSecret] = useState<string | null>(null);
   const [connectionState, setConnectionState] = useState<ConnectionState>('disconnected');
+  const [peers, setPeers] = useState<PeerSummary[]>([]);
+  // Peers dropped files go to; null sends to every connected peer
+  const [sendTargets, setSendTargets] = useState<Set<string> | null>(null);
   const [transfers, setTransfers] = useState<Map<string, FileTransfer>>(new Map());
-  const [completedFiles, setCompletedFiles] = useState<Array<{ id: string, name: string, blob: Blob }>>([]);
+  const [completedFiles, setCompletedFiles] = useState<CompletedFile[]>([]);
+  const [downloadDirectory, setDownloadDirectory] = useState<FileSystemDirectoryHandle | null>(null);
+  const [requireVerification, setRequireVerification] = useState(false);
+  const [hasPassword, setHasPassword] = useState(false);
+  // Set when a peer rejected our room password (or we had none)
+  const [passwordError, setPasswordError] = useState<SignalingErrorCode | null>(null);
+  const [roomStatus, setRoomStatus] = useState<RoomStatus>({ owner: false, locked: false });
+  // Clients asking the owner to let them in
+  const [knocks, setKnocks] = useState<string[]>([]);
   
+  // Room password; kept out of state and the URL, and only read when connecting
+  const roomPasswordRef = useRef<string | null>(null);
+  // Identity of the code the user verified, per peer; a different one must be
+  // verified anew
+  const verificationKeysRef = useRef<Map<string, string>>(new Map());
+  const downloadDirectoryRef = useRef<FileSystemDirectoryHandle | null>(null);
   const webrtcManagerRef = useRef<WebRTCManager | null>(null);
-  const fileTransferManagerRef = useRef<FileTransferManager | null>(null);
+  // One file transfer manager per peer in the room
+  const fileTransferManagersRef = useRef<Map<string, FileTransferManager>>(new Map());
 
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const room = params.get('room');
     if (room) {
       setRoomId(room);
+      setLinkSecret(readLinkSecret(window.location.hash));
     }
+
+    // Ready the service worker used to stream large files to disk
+    registerDownloadWorker();
   }, []);
 
   useEffect(() => {
     if (!roomId) return;
 
+    // Errors with a code have their own message; skip the generic error toast
+    let errorExplained = false;
+    // Peers whose connection has been announced, so a re-established one is not
+    const announced = new Set<string>();
+    const fileTransferManagers = fileTransferManagersRef.current;
+    const verificationKeys = verificationKeysRef.current;
+
+    const updatePeer = (peerId: string, changes: Partial<PeerSummary>) => {
+      setPeers(prev => prev.map(peer => peer.id === peerId ? { ...peer, ...changes } : peer));
+    };
+
+    const transferCallbacks: FileTransferCallbacks = {
+      onTransferUpdate: (transfer) => {
+        setTransfers(prev => new Map(prev).set(transfer.id, transfer));
+      },
+      onTransferComplete: (transfer, blob) => {
+        setTransfers(prev => new Map(prev).set(transfer.id, transfer));
+        
+        if (transfer.direction === 'receiving') {
+          // Add to completed files; streamed downloads are already saved
+          setCompletedFiles(prev => [...prev, {
+            id: transfer.id,
+            name: transfer.metadata.name,
+            relativePath: transfer.metadata.relativePath,
+            lastModified: transfer.metadata.lastModified,
+            isDirectory: transfer.metadata.isDirectory,
+            blob,
+            hash: transfer.fileHash,
+            savedTo: transfer.sink === 'file-system' ? 'folder' : transfer.sink === 'download' ? 'downloads' : undefined
+          }]);
+
+          if (transfer.metadata.isDirectory) return;
+          
+          toast({
+            title: 'File received',
+            description: blob && transfer.sink !== 'file-system'
+              ? `${transfer.metadata.name} is ready to download`
+              : `${transfer.metadata.name} has been saved`
+          });
+        } else if (transfer.direction === 'sending' && !transfer.metadata.isDirectory) {
+          toast({
+            title: 'File sent',
+            description: transfer.peerId
+              ? `${transfer.metadata.name} sent to ${peerLabel(transfer.peerId)}`
+              : `${transfer.metadata.name} sent successfully`
+          });
+        }
+      },
+      onError: (fileId, error) => {
+        console.error('[Home] File transfer error:', fileId, error);
+        toast({
+          title: 'Transfer error',
+          description: error,
+          variant: 'destructive'
+        });
+      }
+    };
+
     // Initialize WebRTC manager
     const webrtcManager = new WebRTCManager({
       onConnectionStateChange: (state) => {
         console.log('[Home] Connection state changed:', state);
         setConnectionState(state);
         
+        if (state === 'connecting' || state === 'connected') {
+          errorExplained = false;
+        }
+
         if (state === 'connected') {
-          toast({
-            title: 'Connected',
-            description: 'Peer connection established. You can now transfer files!'
-          });
-        } else if (state === 'peer-left') {
-          toast({
-            title: 'Peer disconnected',
-            description: 'Your peer has left the room.',
-            variant: 'destructive'
-          });
-        } else if (state === 'error') {
+          setPasswordError(null);
+        } else if (state === 'error' && !errorExplained) {
           toast({
             title: 'Connection error',
             description: 'Failed to establish connection. Please try again.',
@@ -56,19 +161,105 @@ export default function Home() {
           });
         }
       },
-      onDataChannelMessage: (message) => {
+      onPeerJoined: (peer) => {
+        const fileTransferManager = new FileTransferManager(peer, transferCallbacks);
+        fileTransferManager.setDownloadDirectory(downloadDirectoryRef.current);
+        fileTransferManagers.get(peer.peerId)?.cleanup();
+        fileTransferManagers.set(peer.peerId, fileTransferManager);
+        setPeers(prev => [
+          ...prev.filter(item => item.id !== peer.peerId),
+          { id: peer.peerId, state: peer.getState(), verificationCode: null, verified: false }
+        ]);
+      },
+      onPeerStateChange: (peerId, state) => {
+        updatePeer(peerId, { state });
+        if (state === 'connected' && !announced.has(peerId)) {
+          announced.add(peerId);
+          toast({
+            title: 'Connected',
+            description: `${peerLabel(peerId)} connected. You can now transfer files!`
+          });
+        }
+      },
+      onPeerLeft: (peerId) => {
+        const fileTransferManager = fileTransferManagers.get(peerId);
+        fileTransferManager?.revokeAutoAccept();
+        fileTransferManager?.cleanup();
+        fileTransferManagers.delete(peerId);
+        // A peer that comes back has to be verified anew
+        verificationKeys.delete(peerId);
+        announced.delete(peerId);
+        setPeers(prev => prev.filter(peer => peer.id !== peerId));
+        setSendTargets(prev => {
+          if (!prev) return prev;
+          const next = new Set(prev);
+          next.delete(peerId);
+          return next;
+        });
+        toast({
+          title: 'Peer disconnected',
+          description: `${peerLabel(peerId)} has left the room.`,
+          variant: 'destructive'
+        });
+      },
+      onDataChannelMessage: (peerId, message) => {
+        const fileTransferManager = fileTransferManagers.get(peerId);
         if (message instanceof ArrayBuffer) {
           // Handle file chunk
-          fileTransferManagerRef.current?.handleChunk(message);
+          fileTransferManager?.handleChunk(message);
         } else {
           // Handle control message
-          fileTransferManagerRef.current?.handleControlMessage(message as FileControlMessage);
+          fileTransferManager?.handleControlMessage(message as FileControlMessage);
         }
       },
-      onError: (error) => {
-        console.error('[Home] WebRTC error:', error);
+      onDataChannelOpen: (peerId) => {
+        fileTransferManagers.get(peerId)?.handleChannelOpen();
+      },
+      onDataChannelClose: (peerId) => {
+        fileTransferManagers.get(peerId)?.handleChannelClose();
+      },
+      onPeerConnectionLost: (peerId) => {
+        fileTransferManagers.get(peerId)?.handleConnectionLost();
+      },
+      onBufferedAmountLow: (peerId) => {
+        fileTransferManagers.get(peerId)?.handleBufferedAmountLow();
+      },
+      onChunkAuthFailure: (peerId, streamId, chunkIndex) => {
+        fileTransferManagers.get(peerId)?.handleChunkAuthFailure(streamId, chunkIndex);
+      },
+      onVerificationCode: (peerId, code) => {
+        const key = `${code.emoji.map(item => item.name).join(',')}:${code.digits}`;
+        if (verificationKeys.get(peerId) !== key) {
+          verificationKeys.set(peerId, key);
+          updatePeer(peerId, { verificationCode: code, verified: false });
+        } else {
+          updatePeer(peerId, { verificationCode: code });
+        }
+      },
+      onRoomStatusChange: (status) => {
+        setRoomStatus(status);
+      },
+      onKnock: (peerId) => {
+        setKnocks(prev => prev.includes(peerId) ? prev : [...prev, peerId]);
+        toast({
+          title: 'Someone wants to join',
+          description: `${peerLabel(peerId)} is waiting for you to let them in.`
+        });
+      },
+      onKnockWithdrawn: (peerId) => {
+        setKnocks(prev => prev.filter(id => id !== peerId));
+      },
+      onError: (error, code) => {
+        console.error('[Home] WebRTC error:', error, code);
+        const isPasswordError = code === 'PASSWORD_REQUIRED' || code === 'WRONG_PASSWORD';
+        if (code) {
+          errorExplained = true;
+        }
+        if (isPasswordError) {
+          setPasswordError(code);
+        }
         toast({
-          title: 'Error',
+          title: (code && ERROR_TITLES[code]) || 'Error',
           description: error,
           variant: 'destructive'
         });
@@ -77,65 +268,93 @@ export default function Home() {
 
     webrtcManagerRef.current = webrtcManager;
 
-    // Initialize file transfer manager
-    const fileTransferManager = new FileTransferManager(webrtcManager, {
-      onTransferUpdate: (transfer) => {
-        setTransfers(prev => new Map(prev).set(transfer.id, transfer));
-      },
-      onTransferComplete: (transfer, blob) => {
-        setTransfers(prev => new Map(prev).set(transfer.id, transfer));
-        
-        if (blob && transfer.direction === 'receiving') {
-          // Add to completed files for download
-          setCompletedFiles(prev => [...prev, {
-            id: transfer.id,
-            name: transfer.metadata.name,
-            blob
-          }]);
-          
-          toast({
-            title: 'File received',
-            description: `${transfer.metadata.name} is ready to download`
-          });
-        } else if (transfer.direction === 'sending') {
-          toast({
-            title: 'File sent',
-            description: `${transfer.metadata.name} sent successfully`
+    // Connect to room, once the link's keys (if any) are ready
+    let cancelled = false;
+    (linkSecret ? deriveLinkKeys(linkSecret, roomId) : Promise.resolve(null))
+      .then(keys => {
+        if (!cancelled) {
+          webrtcManager.connect(roomId, {
+            linkKeys: keys,
+            password: roomPasswordRef.current,
+            ownerToken: recallOwnerToken(roomId)
           });
         }
-      },
-      onError: (fileId, error) => {
-        console.error('[Home] File transfer error:', fileId, error);
+      })
+      .catch(error => {
+        console.error('[Home] Error deriving link keys:', error);
+        setConnectionState('error');
         toast({
-          title: 'Transfer error',
-          description: error,
+          title: 'Invalid link',
+          description: 'The encryption key in this link is damaged. Ask for the link again.',
           variant: 'destructive'
         });
-      }
-    });
-
-    fileTransferManagerRef.current = fileTransferManager;
-
-    // Connect to room
-    webrtcManager.connect(roomId);
+      });
 
     // Cleanup on unmount
     return () => {
-      fileTransferManager.cleanup();
+      cancelled = true;
+      for (const fileTransferManager of Array.from(fileTransferManagers.values())) {
+        fileTransferManager.cleanup();
+      }
+      fileTransferManagers.clear();
+      verificationKeys.clear();
       webrtcManager.cleanup();
+      setPeers([]);
+      setSendTargets(null);
+      setKnocks([]);
+      setRoomStatus({ owner: false, locked: false });
     };
-  }, [roomId, toast]);
+  }, [roomId, linkSecret, toast]);
+
+  useEffect(() => {
+    for (const peer of peers) {
+      fileTransferManagersRef.current.get(peer.id)?.setSendingBlocked(requireVerification && !peer.verified);
+    }
+  }, [peers, requireVerification]);
 
-  const handleRoomCreated = useCallback((newRoomId: string) => {
+  const handleRoomCreated = useCallback((newRoomId: string, secret: string | null, password: string) => {
+    roomPasswordRef.current = password || null;
+    setHasPassword(!!password);
+    setPasswordError(null);
+    setLinkSecret(secret);
     setRoomId(newRoomId);
   }, []);
 
-  const handleJoinRoom = useCallback((newRoomId: string) => {
+  const handleJoinRoom = useCallback((newRoomId: string, secret: string | null, password: string) => {
+    roomPasswordRef.current = password || null;
+    setHasPassword(!!password);
+    setPasswordError(null);
+    setLinkSecret(secret);
     setRoomId(newRoomId);
   }, []);
 
-  const handleFilesSelected = useCallback((files: File[]) => {
-    if (connectionState !== 'connected') {
+  const handleRetryPassword = useCallback((password: string) => {
+    roomPasswordRef.current = password || null;
+    setHasPassword(!!password);
+    setPasswordError(null);
+    webrtcManagerRef.current?.retryPassword(password);
+  }, []);
+
+  const handlePeerVerifiedChange = useCallback((peerId: string, verified: boolean) => {
+    setPeers(prev => prev.map(peer => peer.id === peerId ? { ...peer, verified } : peer));
+  }, []);
+
+  const handleAnswerKnock = useCallback((peerId: string, admit: boolean) => {
+    webrtcManagerRef.current?.answerKnock(peerId, admit);
+    setKnocks(prev => prev.filter(id => id !== peerId));
+  }, []);
+
+  const handleLockedChange = useCallback((locked: boolean) => {
+    webrtcManagerRef.current?.setRoomLocked(locked);
+  }, []);
+
+  const handleKickPeer = useCallback((peerId: string) => {
+    webrtcManagerRef.current?.kickPeer(peerId);
+  }, []);
+
+  const handleFilesSelected = useCallback((entries: SelectedEntry[]) => {
+    // Files for a peer we are reconnecting to wait in its queue
+    if (connectionState !== 'connected' && connectionState !== 'reconnecting') {
       toast({
         title: 'Not connected',
         description: 'Please wait for a peer to connect before sending files.',
@@ -144,20 +363,90 @@ export default function Home() {
       return;
     }
 
-    fileTransferManagerRef.current?.sendFiles(files);
-    
+    const targets = peers.filter(peer =>
+      (peer.state === 'connected' || peer.state === 'reconnecting') && (sendTargets === null || sendTargets.has(peer.id))
+    );
+    if (targets.length === 0) {
+      toast({
+        title: 'No peer selected',
+        description: 'Choose at least one connected peer to send to.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    for (const peer of targets) {
+      fileTransferManagersRef.current.get(peer.id)?.sendFiles(entries);
+    }
+
+    const fileCount = entries.filter(entry => entry.kind === 'file').length;
+    const recipients = targets.length === 1 ? peerLabel(targets[0].id) : `${targets.length} peers`;
     toast({
       title: 'Files queued',
-      description: `${files.length} file(s) ready to send`
+      description: requireVerification && targets.some(peer => !peer.verified)
+        ? `${fileCount} file(s) will be sent to ${recipients} once you verify them`
+        : `${fileCount} file(s) ready to send to ${recipients}`
     });
-  }, [connectionState, toast]);
+  }, [connectionState, peers, sendTargets, requireVerification, toast]);
 
-  const handleCancelTransfer = useCallback((fileId: string) => {
-    fileTransferManagerRef.current?.cancelTransfer(fileId);
+  const handleChooseDirectory = useCallback(async () => {
+    try {
+      const directory = await pickDownloadDirectory();
+      downloadDirectoryRef.current = directory;
+      setDownloadDirectory(directory);
+      fileTransferManagersRef.current.forEach(manager => manager.setDownloadDirectory(directory));
+    } catch (error) {
+      // The user dismissed the picker
+      console.log('[Home] Directory picker closed:', error);
+    }
+  }, []);
+
+  const handleClearDirectory = useCallback(() => {
+    downloadDirectoryRef.current = null;
+    setDownloadDirectory(null);
+    fileTransferManagersRef.current.forEach(manager => manager.setDownloadDirectory(null));
   }, []);
 
+  // The manager of the peer a transfer is with
+  const managerFor = useCallback((fileId: string) => {
+    const peerId = transfers.get(fileId)?.peerId;
+    return peerId ? fileTransferManagersRef.current.get(peerId) : undefined;
+  }, [transfers]);
+
+  const handleAcceptOffer = useCallback((fileId: string) => {
+    managerFor(fileId)?.acceptTransfer(fileId);
+  }, [managerFor]);
+
+  const handleDeclineOffer = useCallback((fileId: string) => {
+    managerFor(fileId)?.declineTransfer(fileId);
+  }, [managerFor]);
+
+  const handleAcceptAllOffers = useCallback((peerId: string) => {
+    fileTransferManagersRef.current.get(peerId)?.acceptAllFromPeer();
+  }, []);
+
+  const handlePauseTransfer = useCallback((fileId: string) => {
+    managerFor(fileId)?.pauseTransfer(fileId);
+  }, [managerFor]);
+
+  const handleResumeTransfer = useCallback((fileId: string) => {
+    managerFor(fileId)?.resumeTransfer(fileId);
+  }, [managerFor]);
+
+  const handleCancelTransfer = useCallback((fileId: string) => {
+    managerFor(fileId)?.cancelTransfer(fileId);
+  }, [managerFor]);
+
+  // Received files move to the downloads section once complete and declined
+  // ones disappear; sent files stay listed so their SHA-256 can be compared
+  // with the receiver's
   const transfersList = Array.from(transfers.values()).filter(
-    t => t.status !== 'completed'
+    t => t.direction === 'sending' || (t.status !== 'completed' && t.status !== 'declined')
+  );
+
+  // Offers from a peer that has left can no longer be answered
+  const incomingOffers = Array.from(transfers.values()).filter(
+    t => t.direction === 'receiving' && t.status === 'pending' && peers.some(peer => peer.id === t.peerId)
   );
 
   return (
@@ -175,19 +464,67 @@ export default function Home() {
         <div className="space-y-8">
           <RoomManager 
             roomId={roomId}
+            linkSecret={linkSecret}
             connectionState={connectionState}
+            peerCount={peers.length}
+            hasPassword={hasPassword}
+            passwordError={passwordError}
             onRoomCreated={handleRoomCreated}
             onJoinRoom={handleJoinRoom}
+            onRetryPassword={handleRetryPassword}
           />
 
           {roomId && (
             <>
-              <ConnectionStatus state={connectionState} />
+              <ConnectionStatus
+                state={connectionState}
+                encrypted={linkSecret !== null}
+                requireVerification={requireVerification}
+                onRequireVerificationChange={setRequireVerification}
+                locked={roomStatus.locked}
+                onLockedChange={roomStatus.owner ? handleLockedChange : undefined}
+              />
+
+              {roomStatus.owner && (
+                <JoinRequests knocks={knocks} onAnswer={handleAnswerKnock} />
+              )}
+
+              <PeerList
+                peers={peers}
+                sendTargets={sendTargets}
+                onSendTargetsChange={setSendTargets}
+                onVerifiedChange={handlePeerVerifiedChange}
+                onKick={roomStatus.owner ? handleKickPeer : undefined}
+              />
               
-              {connectionState === 'connected' && (
+              {connectionState === 'reconnecting' && (
+                <div className="p-6 border rounded-lg bg-card text-center">
+                  <p className="text-muted-foreground">
+                    The connection dropped. Reconnecting; transfers continue once it is back...
+                  </p>
+                </div>
+              )}
+
+              {(connectionState === 'connected' || connectionState === 'reconnecting') && (
                 <FileDropZone onFilesSelected={handleFilesSelected} />
               )}
 
+              {connectionState === 'connected' && supportsDirectoryPicker() && (
+                <ReceiveLocation
+                  directoryName={downloadDirectory?.name ?? null}
+                  onChooseDirectory={handleChooseDirectory}
+                  onClearDirectory={handleClearDirectory}
+                />
+              )}
+
+              {connectionState === 'knocking' && (
+                <div className="p-6 border rounded-lg bg-card text-center">
+                  <p className="text-muted-foreground">
+                    Waiting for the room owner to let you in...
+                  </p>
+                </div>
+              )}
+
               {connectionState === 'connecting' && (
                 <div className="p-6 border rounded-lg bg-card text-center">
                   <p className="text-muted-foreground">
@@ -198,12 +535,14 @@ export default function Home() {
 
               {transfersList.length > 0 && (
                 <div className="space-y-4">
-                  <h2 className="text-xl font-semibold">Active Transfers</h2>
+                  <h2 className="text-xl font-semibold">Transfers</h2>
                   <div className="space-y-3">
                     {transfersList.map(transfer => (
                       <TransferCard 
                         key={transfer.id} 
                         transfer={transfer}
+                        onPause={handlePauseTransfer}
+                        onResume={handleResumeTransfer}
                         onCancel={handleCancelTransfer}
                       />
                     ))}
@@ -214,6 +553,13 @@ export default function Home() {
               {completedFiles.length > 0 && (
                 <DownloadSection files={completedFiles} />
               )}
+
+              <IncomingOfferDialog
+                offers={incomingOffers}
+                onAccept={handleAcceptOffer}
+                onDecline={handleDeclineOffer}
+                onAcceptAll={handleAcceptAllOffers}
+              />
             </>
           )}
         </div>
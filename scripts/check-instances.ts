@@ -0,0 +1,183 @@
+import express from "express";
+import WebSocket from "ws";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "../server/routes";
+import { createSignalingBackend } from "../server/signaling-backend";
+import { startRespStandIn } from "../server/resp-stand-in";
+import type { CreatedRoom, SignalingMessage } from "../shared/schema";
+
+// Checks that two signaling instances sharing one Redis behave as one server:
+// a room made on one is found by code on the other, a client on the second
+// knocks and is admitted by the owner on the first, an offer and an answer
+// cross between them, and a client whose socket dropped resumes on the other
+// instance without its peer noticing, getting what was sent to it meanwhile.
+//
+//   npm run check:instances                      against the in-process stand-in
+//   REDIS_URL=redis://... npm run check:instances   against a real Redis
+
+const MESSAGE_TIMEOUT = 5 * 1000;
+
+async function startInstance(url: string): Promise<string> {
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app, await createSignalingBackend({ REDIS_URL: url }));
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+async function issueClientKey(host: string): Promise<string> {
+  const res = await fetch(`http://${host}/api/client-keys`, { method: 'POST' });
+  check(res.ok, `client key issued by ${host}`);
+  return (await res.json() as { clientKey: string }).clientKey;
+}
+
+// A signaling client that keeps what it was sent, for the check to wait on
+class TestClient {
+  private ws: WebSocket;
+  private received: SignalingMessage[] = [];
+  private waiting: (() => void) | null = null;
+
+  private constructor(ws: WebSocket) {
+    this.ws = ws;
+    ws.on('message', (data) => {
+      this.received.push(JSON.parse(data.toString()));
+      this.waiting?.();
+    });
+  }
+
+  static async open(host: string): Promise<TestClient> {
+    const ws = new WebSocket(`ws://${host}/ws`);
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve);
+      ws.once('error', reject);
+    });
+    return new TestClient(ws);
+  }
+
+  send(message: object): void {
+    this.ws.send(JSON.stringify(message));
+  }
+
+  // The first message of this type not yet taken
+  async next<T extends SignalingMessage['type']>(type: T): Promise<Extract<SignalingMessage, { type: T }>> {
+    const deadline = Date.now() + MESSAGE_TIMEOUT;
+    for (;;) {
+      const index = this.received.findIndex(message => message.type === type);
+      if (index !== -1) {
+        return this.received.splice(index, 1)[0] as Extract<SignalingMessage, { type: T }>;
+      }
+      const left = deadline - Date.now();
+      if (left <= 0) {
+        throw new Error(`No '${type}' message within ${MESSAGE_TIMEOUT / 1000} seconds`);
+      }
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, left);
+        this.waiting = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.waiting = null;
+    }
+  }
+
+  has(type: SignalingMessage['type']): boolean {
+    return this.received.some(message => message.type === type);
+  }
+
+  // Drops the socket without a close handshake, like a lost connection
+  drop(): void {
+    this.ws.terminate();
+  }
+
+  close(): void {
+    this.ws.close(1000);
+  }
+}
+
+function check(condition: boolean, what: string): void {
+  if (!condition) throw new Error(`Failed: ${what}`);
+  console.log(`ok - ${what}`);
+}
+
+async function main(): Promise<void> {
+  let url = process.env.REDIS_URL;
+  if (!url) {
+    url = (await startRespStandIn(0)).url;
+  }
+  const first = await startInstance(url);
+  const second = await startInstance(url);
+
+  const created = await fetch(`http://${first}/api/rooms`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: '{}'
+  });
+  const room = await created.json() as CreatedRoom;
+  check(created.ok && !!room.code, 'room created on the first instance');
+
+  const found = await fetch(`http://${second}/api/rooms/by-code/${room.code}`);
+  check(found.ok && (await found.json()).roomId === room.roomId, 'pairing code found on the second instance');
+
+  const owner = await TestClient.open(first);
+  owner.send({ type: 'join', roomId: room.roomId, clientKey: await issueClientKey(first), ownerToken: room.ownerToken });
+  const ownerId = (await owner.next('joined')).peerId;
+
+  // Issued by one instance, accepted by the other
+  const guestKey = await issueClientKey(first);
+  const guest = await TestClient.open(second);
+  guest.send({ type: 'join', roomId: room.roomId, clientKey: guestKey });
+  await guest.next('knocking');
+  const knock = await owner.next('knock');
+  check(!!knock.peerId, 'knock reaches the owner on the other instance');
+
+  owner.send({ type: 'knock-response', peerId: knock.peerId, admit: true });
+  const joined = await guest.next('joined');
+  check(joined.peers.includes(ownerId), 'admitted guest is told about the owner');
+  check((await owner.next('peer-joined')).peerId === joined.peerId, 'owner is told about the guest');
+
+  owner.send({ type: 'offer', to: joined.peerId, offer: { type: 'offer', sdp: 'offer-sdp' } });
+  const offer = await guest.next('offer');
+  check(offer.from === ownerId && offer.offer.sdp === 'offer-sdp', 'offer crosses to the second instance');
+  guest.send({ type: 'answer', to: ownerId, answer: { type: 'answer', sdp: 'answer-sdp' } });
+  const answer = await owner.next('answer');
+  check(answer.from === joined.peerId && answer.answer.sdp === 'answer-sdp', 'answer crosses back to the first');
+
+  // Lost, and sent something while away; it comes back on the other instance
+  guest.drop();
+  await new Promise(resolve => setTimeout(resolve, 200));
+  owner.send({
+    type: 'ice-candidate',
+    to: joined.peerId,
+    candidate: { candidate: 'held-candidate', sdpMid: '0', sdpMLineIndex: 0, usernameFragment: null }
+  });
+  await new Promise(resolve => setTimeout(resolve, 200));
+
+  const resumed = await TestClient.open(first);
+  resumed.send({
+    type: 'join',
+    roomId: room.roomId,
+    clientKey: guestKey,
+    resume: { peerId: joined.peerId, token: joined.resumeToken }
+  });
+  check((await resumed.next('resumed')).peerId === joined.peerId, 'dropped guest resumes on the first instance');
+  const held = await resumed.next('ice-candidate');
+  check(held.candidate.candidate === 'held-candidate', 'what was sent while away is delivered on resume');
+  check(!owner.has('peer-left'), 'owner never sees the guest leave');
+
+  for (const host of [first, second]) {
+    const health = await fetch(`http://${host}/api/health`);
+    check(health.ok, `instance ${host} reports healthy`);
+  }
+
+  owner.close();
+  resumed.close();
+}
+
+main().then(
+  () => process.exit(0),
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,23 @@
+import type { IncomingMessage } from "http";
+
+// How many proxies in front of this server append to X-Forwarded-For. Left
+// unset, the header is ignored: anyone can send one, so it only says where a
+// request came from when a proxy we run has written it.
+const TRUST_PROXY = Math.max(0, Math.floor(Number(process.env.TRUST_PROXY) || 0));
+
+// Where a request comes from, as far as the server can tell. Each trusted
+// proxy appends the address that connected to it, so the client is the entry
+// that many places from the end; anything before it may be made up.
+export function clientAddress(req: IncomingMessage): string {
+  const peer = req.socket.remoteAddress || 'unknown';
+  if (TRUST_PROXY === 0) return peer;
+
+  const header = req.headers['x-forwarded-for'];
+  const forwarded = (Array.isArray(header) ? header.join(',') : header ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean);
+  // Fewer entries than proxies: the request skipped one of them
+  if (forwarded.length < TRUST_PROXY) return peer;
+  return forwarded[forwarded.length - TRUST_PROXY];
+}
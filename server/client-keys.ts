@@ -0,0 +1,49 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import type { IRoomStore } from "./storage";
+import { generateToken, hashToken } from "./room-codes";
+import { clientAddress } from "./client-address";
+
+// Client keys: what a browser joins rooms with, and what a kick bans.
+//
+//   POST /api/client-keys   issue a key to this browser
+//
+// Only keys issued here are accepted with 'join', and one address gets only
+// so many per window, so a kicked client cannot come back under a fresh key
+// whenever it likes. The server keeps the keys hashed, for CLIENT_KEY_TTL.
+
+const CLIENT_KEYS_PER_WINDOW = 10;
+const CLIENT_KEY_WINDOW = 60 * 60 * 1000;
+export const CLIENT_KEY_TTL = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+const issuedKey = (identity: string) => `client-key:${identity}`;
+
+// The identity a key stands for; what bans and password lockouts are kept by
+export function clientIdentity(clientKey: string): string {
+  return hashToken(clientKey);
+}
+
+export async function isIssuedClientKey(storage: IRoomStore, clientKey: string): Promise<boolean> {
+  return await storage.getHits(issuedKey(clientIdentity(clientKey))) > 0;
+}
+
+export function createClientKeysRouter(storage: IRoomStore): Router {
+  const router = Router();
+
+  router.post('/', (req: Request, res: Response, next: NextFunction) => {
+    (async () => {
+      const address = clientAddress(req);
+      if (await storage.addHit(`client-keys:${address}`, CLIENT_KEY_WINDOW) > CLIENT_KEYS_PER_WINDOW) {
+        return res
+          .status(429)
+          .set('Retry-After', String(Math.ceil(CLIENT_KEY_WINDOW / 1000)))
+          .json({ message: 'Too many new browsers from this network; try again later' });
+      }
+
+      const clientKey = generateToken();
+      await storage.addHit(issuedKey(clientIdentity(clientKey)), CLIENT_KEY_TTL);
+      res.status(201).json({ clientKey });
+    })().catch(next);
+  });
+
+  return router;
+}
@@ -0,0 +1,405 @@
+import { DEFAULT_ROOM_CAPACITY, DEFAULT_ROOM_TTL_SECONDS } from "@shared/schema";
+import { RespClient, type RespValue } from "./resp-client";
+import { generateRoomId, generatePairingCode, hashToken, PAIRING_CODE_TTL } from "./room-codes";
+import {
+  EXPIRED_ROOM_RETENTION,
+  MAX_HELD_DELIVERIES,
+  type ClientDelivery,
+  type DeliveryHandler,
+  type IRoomPubSub,
+  type IRoomStore,
+  type Room,
+  type RoomMember,
+  type RoomOptions
+} from "./storage";
+
+// Room state in Redis, shared by every signaling instance pointed at it.
+// Per room:
+//   room:<id>          hash of the room's fields
+//   room:<id>:members  hash, client id -> member as JSON
+//   room:<id>:knocks   hash, client id -> identity
+//   room:<id>:banned   set of kicked identities
+//   room:<id>:pairs    set of member pairs already introduced
+//   code:<code>        room id, expiring with the pairing code
+//   rooms              hash, room id -> when its keys expire (0 while in use)
+//   hits:<key>         rate limit counter, expiring with its window
+// and per client away from its room:
+//   held:<id>          set while deliveries to the client are kept
+//   inbox:<id>         list of those deliveries, as JSON
+// Keys of an empty room expire a while after the room does, so nothing needs
+// sweeping; they are kept for as long as anyone is in the room.
+
+const PREFIX = 'airdrop:';
+
+const roomKey = (roomId: string) => `${PREFIX}room:${roomId}`;
+const membersKey = (roomId: string) => `${roomKey(roomId)}:members`;
+const knocksKey = (roomId: string) => `${roomKey(roomId)}:knocks`;
+const bannedKey = (roomId: string) => `${roomKey(roomId)}:banned`;
+const pairsKey = (roomId: string) => `${roomKey(roomId)}:pairs`;
+const codeKey = (code: string) => `${PREFIX}code:${code}`;
+const roomsKey = `${PREFIX}rooms`;
+const hitsKey = (key: string) => `${PREFIX}hits:${key}`;
+const clientChannel = (clientId: string) => `${PREFIX}client:${clientId}`;
+const heldKey = (clientId: string) => `${PREFIX}held:${clientId}`;
+const inboxKey = (clientId: string) => `${PREFIX}inbox:${clientId}`;
+
+const roomKeys = (roomId: string) => [
+  roomKey(roomId),
+  membersKey(roomId),
+  knocksKey(roomId),
+  bannedKey(roomId),
+  pairsKey(roomId)
+];
+
+// HGETALL replies with a flat list of fields and values
+function toRecord(reply: RespValue): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (Array.isArray(reply)) {
+    for (let i = 0; i + 1 < reply.length; i += 2) {
+      record[String(reply[i])] = String(reply[i + 1]);
+    }
+  }
+  return record;
+}
+
+export class RedisRoomStore implements IRoomStore {
+  constructor(private redis: RespClient) {}
+
+  async createRoom(ownerToken: string, options: RoomOptions = {}): Promise<Room> {
+    let roomId = generateRoomId();
+    while (await this.redis.command('HGET', roomKey(roomId), 'id') !== null) {
+      roomId = generateRoomId();
+    }
+
+    const now = Date.now();
+    const expiresAt = now + (options.ttlSeconds ?? DEFAULT_ROOM_TTL_SECONDS) * 1000;
+    const codeExpiresAt = Math.min(now + PAIRING_CODE_TTL, expiresAt);
+
+    // The code space is small, so skip codes other rooms still hold; NX
+    // claims a free one even against other instances
+    let code = generatePairingCode();
+    while (await this.redis.command('SET', codeKey(code), roomId, 'PX', codeExpiresAt - now, 'NX') === null) {
+      code = generatePairingCode();
+    }
+
+    const room: Room = {
+      id: roomId,
+      code,
+      codeExpiresAt,
+      ownerTokenHash: hashToken(ownerToken),
+      capacity: options.capacity ?? DEFAULT_ROOM_CAPACITY,
+      clients: [],
+      ownerId: null,
+      locked: false,
+      knocks: [],
+      createdAt: now,
+      expiresAt
+    };
+
+    await this.redis.command(
+      'HSET', roomKey(roomId),
+      'id', room.id,
+      'code', code,
+      'codeExpiresAt', room.codeExpiresAt,
+      'ownerTokenHash', room.ownerTokenHash,
+      'capacity', room.capacity,
+      'ownerId', '',
+      'locked', '0',
+      'createdAt', room.createdAt,
+      'expiresAt', room.expiresAt
+    );
+    await this.touchExpiry(roomId);
+    console.log(`[Room] Created room: ${roomId}`);
+    return room;
+  }
+
+  async getRoom(roomId: string): Promise<Room | undefined> {
+    const fields = toRecord(await this.redis.command('HGETALL', roomKey(roomId)));
+    if (!fields.id) return undefined;
+
+    const members = toRecord(await this.redis.command('HGETALL', membersKey(roomId)));
+    const knocks = toRecord(await this.redis.command('HGETALL', knocksKey(roomId)));
+    return {
+      id: fields.id,
+      code: fields.code || null,
+      codeExpiresAt: Number(fields.codeExpiresAt),
+      ownerTokenHash: fields.ownerTokenHash,
+      capacity: Number(fields.capacity),
+      clients: Object.values(members).map(member => JSON.parse(member) as RoomMember),
+      ownerId: fields.ownerId || null,
+      locked: fields.locked === '1',
+      knocks: Object.keys(knocks),
+      createdAt: Number(fields.createdAt),
+      expiresAt: Number(fields.expiresAt)
+    };
+  }
+
+  async getRoomByCode(code: string): Promise<Room | undefined> {
+    const roomId = await this.redis.command('GET', codeKey(code));
+    if (typeof roomId !== 'string') return undefined;
+
+    const room = await this.getRoom(roomId);
+    if (!room || room.code !== code || room.codeExpiresAt <= Date.now()) {
+      return undefined;
+    }
+    return room;
+  }
+
+  // Pairing codes are single use: released once the room is full
+  async releaseRoomCode(roomId: string): Promise<void> {
+    const code = await this.redis.command('HGET', roomKey(roomId), 'code');
+    if (typeof code !== 'string' || !code) return;
+
+    await this.redis.command('DEL', codeKey(code));
+    await this.redis.command('HSET', roomKey(roomId), 'code', '');
+    console.log(`[Room] Released pairing code of room ${roomId}`);
+  }
+
+  async addClientToRoom(roomId: string, clientId: string, identity: string, resumeTokenHash: string): Promise<string[] | null> {
+    const capacity = await this.redis.command('HGET', roomKey(roomId), 'capacity');
+    if (capacity === null) {
+      console.error(`[Room] Room not found: ${roomId}`);
+      return null;
+    }
+
+    // Join first and count after, so two instances filling the last place
+    // at once cannot both get in
+    const member: RoomMember = { id: clientId, identity, resumeTokenHash, session: clientId, awayUntil: null };
+    await this.redis.command('HSET', membersKey(roomId), clientId, JSON.stringify(member));
+    const occupancy = Number(await this.redis.command('HLEN', membersKey(roomId)));
+    if (occupancy > Number(capacity)) {
+      await this.redis.command('HDEL', membersKey(roomId), clientId);
+      console.warn(`[Room] Room ${roomId} is full`);
+      return null;
+    }
+    await this.touchExpiry(roomId);
+    console.log(`[Room] Client ${clientId} joined room ${roomId} (${occupancy}/${capacity})`);
+
+    // Of two clients joining at once, at least the later one sees the other
+    // here, and maybe both do; whoever claims the pair first introduces it
+    const members = toRecord(await this.redis.command('HGETALL', membersKey(roomId)));
+    const peers: string[] = [];
+    for (const peerId of Object.keys(members)) {
+      if (peerId === clientId) continue;
+      const pair = [peerId, clientId].sort().join(' ');
+      if (await this.redis.command('SADD', pairsKey(roomId), pair) === 1) {
+        peers.push(peerId);
+      }
+    }
+    return peers;
+  }
+
+  async removeClientFromRoom(roomId: string, clientId: string): Promise<void> {
+    if (await this.redis.command('HDEL', membersKey(roomId), clientId) !== 1) return;
+
+    await this.touchExpiry(roomId);
+    console.log(`[Room] Client ${clientId} left room ${roomId}`);
+  }
+
+  // Read, check and write back: a session racing another for the same place
+  // can slip in between, which at worst leaves the place to the other one
+  private async getMember(roomId: string, clientId: string): Promise<RoomMember | undefined> {
+    const member = await this.redis.command('HGET', membersKey(roomId), clientId);
+    return typeof member === 'string' ? JSON.parse(member) as RoomMember : undefined;
+  }
+
+  private async putMember(roomId: string, member: RoomMember): Promise<void> {
+    await this.redis.command('HSET', membersKey(roomId), member.id, JSON.stringify(member));
+  }
+
+  async setClientAway(roomId: string, clientId: string, session: string, until: number): Promise<boolean> {
+    const member = await this.getMember(roomId, clientId);
+    if (!member || member.session !== session) return false;
+
+    await this.putMember(roomId, { ...member, awayUntil: until });
+    console.log(`[Room] Client ${clientId} away from room ${roomId}`);
+    return true;
+  }
+
+  async resumeClient(roomId: string, clientId: string, session: string): Promise<boolean> {
+    const member = await this.getMember(roomId, clientId);
+    if (!member) return false;
+
+    await this.putMember(roomId, { ...member, session, awayUntil: null });
+    console.log(`[Room] Client ${clientId} resumed in room ${roomId}`);
+    return true;
+  }
+
+  async removeAwayClient(roomId: string, clientId: string, session: string): Promise<boolean> {
+    const member = await this.getMember(roomId, clientId);
+    if (!member || member.session !== session || member.awayUntil === null) return false;
+
+    await this.removeClientFromRoom(roomId, clientId);
+    return true;
+  }
+
+  async isClientInRoom(roomId: string, clientId: string): Promise<boolean> {
+    return await this.redis.command('HEXISTS', membersKey(roomId), clientId) === 1;
+  }
+
+  async setRoomOwner(roomId: string, clientId: string | null): Promise<void> {
+    if (!await this.roomExists(roomId)) return;
+    await this.redis.command('HSET', roomKey(roomId), 'ownerId', clientId ?? '');
+  }
+
+  async setRoomLocked(roomId: string, locked: boolean): Promise<void> {
+    if (!await this.roomExists(roomId)) return;
+
+    await this.redis.command('HSET', roomKey(roomId), 'locked', locked ? '1' : '0');
+    console.log(`[Room] Room ${roomId} ${locked ? 'locked' : 'unlocked'}`);
+  }
+
+  async addKnock(roomId: string, clientId: string, identity: string): Promise<void> {
+    if (!await this.roomExists(roomId)) return;
+
+    await this.redis.command('HSET', knocksKey(roomId), clientId, identity);
+    await this.touchExpiry(roomId);
+  }
+
+  async removeKnock(roomId: string, clientId: string): Promise<string | undefined> {
+    const identity = await this.redis.command('HGET', knocksKey(roomId), clientId);
+    if (typeof identity !== 'string') return undefined;
+
+    // Only one instance gets to answer a knock
+    if (await this.redis.command('HDEL', knocksKey(roomId), clientId) !== 1) return undefined;
+    return identity;
+  }
+
+  async banIdentity(roomId: string, identity: string): Promise<void> {
+    if (!await this.roomExists(roomId)) return;
+
+    await this.redis.command('SADD', bannedKey(roomId), identity);
+    await this.touchExpiry(roomId);
+  }
+
+  async isIdentityBanned(roomId: string, identity: string): Promise<boolean> {
+    return await this.redis.command('SISMEMBER', bannedKey(roomId), identity) === 1;
+  }
+
+  async cleanupRoom(roomId: string): Promise<void> {
+    await this.releaseRoomCode(roomId);
+    await this.redis.command('DEL', ...roomKeys(roomId));
+    await this.redis.command('HDEL', roomsKey, roomId);
+    console.log(`[Room] Cleaned up room: ${roomId}`);
+  }
+
+  // Rooms expire by themselves, so their entries are dropped here once due
+  async countRooms(): Promise<number> {
+    const now = Date.now();
+    const rooms = toRecord(await this.redis.command('HGETALL', roomsKey));
+    const expired = Object.keys(rooms).filter(roomId => {
+      const expiresAt = Number(rooms[roomId]);
+      return expiresAt > 0 && expiresAt <= now;
+    });
+    if (expired.length > 0) {
+      await this.redis.command('HDEL', roomsKey, ...expired);
+    }
+    return Object.keys(rooms).length - expired.length;
+  }
+
+  async addHit(key: string, windowMs: number): Promise<number> {
+    // The counter is made with its expiry in one command, so no INCR can
+    // leave it without one, whatever happens to the connection in between
+    await this.redis.command('SET', hitsKey(key), 0, 'PX', windowMs, 'NX');
+    return Number(await this.redis.command('INCR', hitsKey(key)));
+  }
+
+  async getHits(key: string): Promise<number> {
+    return Number(await this.redis.command('GET', hitsKey(key)) ?? 0);
+  }
+
+  private async roomExists(roomId: string): Promise<boolean> {
+    return await this.redis.command('HGET', roomKey(roomId), 'id') !== null;
+  }
+
+  // Occupied rooms are kept; empty ones go some time after they expire
+  private async touchExpiry(roomId: string): Promise<void> {
+    const occupancy = Number(await this.redis.command('HLEN', membersKey(roomId)));
+    const expiresAt = Number(await this.redis.command('HGET', roomKey(roomId), 'expiresAt'));
+
+    for (const key of roomKeys(roomId)) {
+      if (occupancy > 0) {
+        await this.redis.command('PERSIST', key);
+      } else {
+        await this.redis.command('PEXPIREAT', key, expiresAt + EXPIRED_ROOM_RETENTION);
+      }
+    }
+    await this.redis.command('HSET', roomsKey, roomId, occupancy > 0 ? 0 : expiresAt + EXPIRED_ROOM_RETENTION);
+  }
+}
+
+// Delivers to clients on this instance directly, and through a channel per
+// client to those connected elsewhere
+export class RedisPubSub implements IRoomPubSub {
+  private handlers: Map<string, DeliveryHandler> = new Map();
+
+  // A subscribed connection can't run other commands, hence two
+  constructor(private publisher: RespClient, private subscriber: RespClient) {
+    subscriber.onReconnect(() => this.resubscribe());
+    subscriber.setPushHandler((channel, payload) => {
+      const clientId = channel.slice(clientChannel('').length);
+      const handler = this.handlers.get(clientId);
+      if (!handler) return;
+
+      try {
+        handler(JSON.parse(payload) as ClientDelivery);
+      } catch (error) {
+        console.error('[Redis] Unreadable delivery:', error);
+      }
+    });
+  }
+
+  // Subscriptions end with the connection. Whatever was published to a
+  // client meanwhile is lost, unless the client was away and it was held.
+  private async resubscribe(): Promise<void> {
+    await Promise.all(Array.from(this.handlers.keys()).map(clientId =>
+      this.subscriber.command('SUBSCRIBE', clientChannel(clientId))));
+  }
+
+  async subscribe(clientId: string, handler: DeliveryHandler): Promise<void> {
+    this.handlers.set(clientId, handler);
+    await this.subscriber.command('SUBSCRIBE', clientChannel(clientId));
+
+    // Subscribed first, so nothing falls between the inbox and the channel
+    const held = await this.publisher.command('LRANGE', inboxKey(clientId), 0, -1);
+    await this.publisher.command('DEL', heldKey(clientId), inboxKey(clientId));
+    for (const payload of Array.isArray(held) ? held : []) {
+      handler(JSON.parse(String(payload)) as ClientDelivery);
+    }
+  }
+
+  async unsubscribe(clientId: string, handler: DeliveryHandler): Promise<void> {
+    if (this.handlers.get(clientId) !== handler) return;
+
+    this.handlers.delete(clientId);
+    await this.subscriber.command('UNSUBSCRIBE', clientChannel(clientId));
+  }
+
+  async publish(clientId: string, delivery: ClientDelivery): Promise<void> {
+    const handler = this.handlers.get(clientId);
+    if (handler) {
+      handler(delivery);
+      return;
+    }
+
+    const payload = JSON.stringify(delivery);
+    const receivers = await this.publisher.command('PUBLISH', clientChannel(clientId), payload);
+    if (receivers !== 0) return;
+
+    // Nobody listening: keep it if the client is expected back
+    const ttl = await this.publisher.command('PTTL', heldKey(clientId));
+    if (typeof ttl !== 'number' || ttl <= 0) return;
+    if (Number(await this.publisher.command('RPUSH', inboxKey(clientId), payload)) > MAX_HELD_DELIVERIES) {
+      await this.publisher.command('RPOP', inboxKey(clientId));
+    }
+    await this.publisher.command('PEXPIRE', inboxKey(clientId), ttl);
+  }
+
+  async hold(clientId: string, ttlMs: number): Promise<void> {
+    await this.publisher.command('SET', heldKey(clientId), '1', 'PX', ttlMs);
+  }
+
+  async release(clientId: string): Promise<void> {
+    await this.publisher.command('DEL', heldKey(clientId), inboxKey(clientId));
+  }
+}
@@ -0,0 +1,278 @@
+import net from "net";
+
+// A minimal client for the Redis protocol (RESP2): enough to keep room state
+// and relay messages between signaling instances without a driver dependency.
+
+export type RespValue = string | number | null | RespValue[];
+
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+// Encodes a command as an array of bulk strings
+export function encodeCommand(args: Array<string | number>): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+  for (const arg of args) {
+    const value = Buffer.from(String(arg));
+    parts.push(Buffer.from(`$${value.length}\r\n`), value, Buffer.from('\r\n'));
+  }
+  return Buffer.concat(parts);
+}
+
+// Reads one value from the start of the buffer. Returns null when the buffer
+// does not hold a complete value yet; errors come back as RespError values.
+export function parseReply(buffer: Buffer, offset = 0): { value: RespValue | RespError; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const prefix = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const afterLine = lineEnd + 2;
+
+  switch (prefix) {
+    case '+':
+      return { value: line, next: afterLine };
+    case '-':
+      return { value: new RespError(line), next: afterLine };
+    case ':':
+      return { value: Number(line), next: afterLine };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, next: afterLine };
+      if (buffer.length < afterLine + length + 2) return null;
+      return { value: buffer.toString('utf8', afterLine, afterLine + length), next: afterLine + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, next: afterLine };
+      const items: RespValue[] = [];
+      let next = afterLine;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, next);
+        if (!item) return null;
+        if (item.value instanceof RespError) throw item.value;
+        items.push(item.value);
+        next = item.next;
+      }
+      return { value: items, next };
+    }
+    default:
+      throw new RespError(`Unexpected reply type '${prefix}'`);
+  }
+}
+
+// A dropped connection is reopened after 0.1 seconds, doubling up to 5, at
+// most this many times in a row before the client gives up on the server
+const RECONNECT_BASE_DELAY = 100;
+const RECONNECT_MAX_DELAY = 5 * 1000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+export class RespClient {
+  private url: URL;
+  // Null while the connection is down
+  private socket: net.Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+  // Set by close(); any other lost connection is reopened
+  private closed = false;
+  // Set while a connection is being set up; one dropped then is retried
+  // by whoever opened it
+  private opening = false;
+  private reconnectAttempts = 0;
+  // Set once the connection subscribes; published messages go here
+  private onPush: ((channel: string, message: string) => void) | null = null;
+  private reconnectListeners: Array<() => Promise<void>> = [];
+  private failureListeners: Array<(error: Error) => void> = [];
+
+  private constructor(url: URL) {
+    this.url = url;
+  }
+
+  // Accepts redis://[user:password@]host[:port][/db]
+  static async connect(url: string): Promise<RespClient> {
+    const client = new RespClient(new URL(url));
+    await client.open();
+    return client;
+  }
+
+  // Whether the connection is up; commands sent meanwhile fail at once
+  get ready(): boolean {
+    return this.socket !== null && !this.opening;
+  }
+
+  // Runs after every reconnect, before the connection counts as ready
+  // again; for state the server forgot with the old connection
+  onReconnect(listener: () => Promise<void>): void {
+    this.reconnectListeners.push(listener);
+  }
+
+  // Runs once reconnecting has been given up on
+  onFailure(listener: (error: Error) => void): void {
+    this.failureListeners.push(listener);
+  }
+
+  private async open(): Promise<void> {
+    const port = this.url.port ? Number(this.url.port) : 6379;
+    this.opening = true;
+    try {
+      const socket = await new Promise<net.Socket>((resolve, reject) => {
+        const socket = net.connect(port, this.url.hostname, () => {
+          socket.off('error', reject);
+          resolve(socket);
+        });
+        socket.once('error', reject);
+      });
+      socket.setNoDelay(true);
+      socket.on('data', (chunk: Buffer) => this.handleData(chunk));
+      socket.on('error', (error) => {
+        console.error('[Redis] Connection error:', error.message);
+      });
+      socket.on('close', () => this.handleClose(socket));
+      this.buffer = Buffer.alloc(0);
+      this.socket = socket;
+
+      // Written before any other command can be, so they all run
+      // authenticated and on the right database
+      const setup: Promise<RespValue>[] = [];
+      if (this.url.password) {
+        const password = decodeURIComponent(this.url.password);
+        setup.push(this.url.username
+          ? this.command('AUTH', decodeURIComponent(this.url.username), password)
+          : this.command('AUTH', password));
+      }
+      const db = this.url.pathname.slice(1);
+      if (db) {
+        setup.push(this.command('SELECT', db));
+      }
+      try {
+        await Promise.all(setup);
+      } catch (error) {
+        this.socket = null;
+        socket.destroy();
+        throw error;
+      }
+    } finally {
+      this.opening = false;
+    }
+  }
+
+  private handleClose(socket: net.Socket): void {
+    if (socket !== this.socket) return;
+
+    this.socket = null;
+    const pending = this.pending;
+    this.pending = [];
+    for (const command of pending) {
+      command.reject(new RespError('Connection closed'));
+    }
+
+    if (this.closed || this.opening) return;
+    console.warn(`[Redis] Lost the connection to ${this.url.host}, reconnecting`);
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      const error = new RespError(`Could not reconnect to ${this.url.host} after ${MAX_RECONNECT_ATTEMPTS} attempts`);
+      console.error(`[Redis] ${error.message}`);
+      for (const listener of this.failureListeners) {
+        listener(error);
+      }
+      return;
+    }
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts, RECONNECT_MAX_DELAY);
+    this.reconnectAttempts++;
+    setTimeout(() => this.reconnect(), delay);
+  }
+
+  private async reconnect(): Promise<void> {
+    if (this.closed) return;
+    try {
+      await this.open();
+      // Not ready until the listeners restored what the old connection had
+      this.opening = true;
+      for (const listener of this.reconnectListeners) {
+        await listener();
+      }
+    } catch (error) {
+      console.error(`[Redis] Reconnect attempt ${this.reconnectAttempts} failed:`, (error as Error).message);
+      this.socket?.destroy();
+      this.socket = null;
+      this.opening = false;
+      this.scheduleReconnect();
+      return;
+    }
+    this.opening = false;
+    this.reconnectAttempts = 0;
+    console.log(`[Redis] Reconnected to ${this.url.host}`);
+  }
+
+  command(...args: Array<string | number>): Promise<RespValue> {
+    const socket = this.socket;
+    if (this.closed || !socket) {
+      return Promise.reject(new RespError('Connection closed'));
+    }
+    return new Promise((resolve, reject) => {
+      this.pending.push({ resolve, reject });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  // Puts the connection in subscriber mode: from here on only
+  // (P)SUBSCRIBE, UNSUBSCRIBE and PING may be sent on it
+  setPushHandler(handler: (channel: string, message: string) => void): void {
+    this.onPush = handler;
+  }
+
+  close(): void {
+    this.closed = true;
+    this.socket?.end();
+  }
+
+  private handleData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      let reply;
+      try {
+        reply = parseReply(this.buffer, offset);
+      } catch (error) {
+        console.error('[Redis] Unreadable reply, closing connection:', error);
+        this.socket?.destroy();
+        return;
+      }
+      if (!reply) break;
+      offset = reply.next;
+      this.dispatch(reply.value);
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private dispatch(value: RespValue | RespError): void {
+    // Published messages arrive unrequested, between command replies
+    if (this.onPush && Array.isArray(value) && value[0] === 'message') {
+      this.onPush(String(value[1]), String(value[2]));
+      return;
+    }
+
+    const command = this.pending.shift();
+    if (!command) {
+      console.warn('[Redis] Reply with no command waiting for it');
+      return;
+    }
+    if (value instanceof RespError) {
+      command.reject(value);
+    } else {
+      command.resolve(value);
+    }
+  }
+}
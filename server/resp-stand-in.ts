@@ -0,0 +1,344 @@
+import net from "net";
+import { parseReply, RespError, type RespValue } from "./resp-client";
+
+// An in-memory server speaking the subset of the Redis protocol the signaling
+// backend uses, so several instances can be run and tried together locally
+// without installing Redis. Not meant for production: nothing is persisted.
+
+type Entry =
+  | { kind: 'string'; value: string; expiresAt: number | null }
+  | { kind: 'hash'; value: Map<string, string>; expiresAt: number | null }
+  | { kind: 'set'; value: Set<string>; expiresAt: number | null }
+  | { kind: 'list'; value: string[]; expiresAt: number | null };
+
+export interface RespStandIn {
+  url: string;
+  close(): Promise<void>;
+}
+
+function encodeReply(value: RespValue | RespError): string {
+  if (value instanceof RespError) return `-${value.message}\r\n`;
+  if (value === null) return '$-1\r\n';
+  if (typeof value === 'number') return `:${value}\r\n`;
+  if (Array.isArray(value)) return `*${value.length}\r\n${value.map(encodeReply).join('')}`;
+  return `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+}
+
+export function startRespStandIn(port = 0): Promise<RespStandIn> {
+  const data = new Map<string, Entry>();
+  // Channel -> sockets subscribed to it
+  const channels = new Map<string, Set<net.Socket>>();
+
+  // Keys expire lazily, when next touched
+  const lookup = (key: string): Entry | undefined => {
+    const entry = data.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const wrongType = new RespError('WRONGTYPE Operation against a key holding the wrong kind of value');
+
+  const hashFor = (key: string, create: boolean): Map<string, string> | RespError | undefined => {
+    const entry = lookup(key);
+    if (!entry) {
+      if (!create) return undefined;
+      const value = new Map<string, string>();
+      data.set(key, { kind: 'hash', value, expiresAt: null });
+      return value;
+    }
+    return entry.kind === 'hash' ? entry.value : wrongType;
+  };
+
+  const setFor = (key: string, create: boolean): Set<string> | RespError | undefined => {
+    const entry = lookup(key);
+    if (!entry) {
+      if (!create) return undefined;
+      const value = new Set<string>();
+      data.set(key, { kind: 'set', value, expiresAt: null });
+      return value;
+    }
+    return entry.kind === 'set' ? entry.value : wrongType;
+  };
+
+  const listFor = (key: string, create: boolean): string[] | RespError | undefined => {
+    const entry = lookup(key);
+    if (!entry) {
+      if (!create) return undefined;
+      const value: string[] = [];
+      data.set(key, { kind: 'list', value, expiresAt: null });
+      return value;
+    }
+    return entry.kind === 'list' ? entry.value : wrongType;
+  };
+
+  // Drops emptied collections, as Redis does
+  const dropIfEmpty = (key: string, collection: Map<string, string> | Set<string> | string[]) => {
+    if ((Array.isArray(collection) ? collection.length : collection.size) === 0) data.delete(key);
+  };
+
+  const unsubscribe = (socket: net.Socket, channel: string) => {
+    const subscribers = channels.get(channel);
+    subscribers?.delete(socket);
+    if (subscribers?.size === 0) channels.delete(channel);
+  };
+
+  const execute = (socket: net.Socket, subscriptions: Set<string>, args: string[]): RespValue | RespError | RespValue[][] => {
+    const [name, ...rest] = args;
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return rest[0] ?? 'PONG';
+      case 'AUTH':
+      case 'SELECT':
+        return 'OK';
+      case 'QUIT':
+        socket.end();
+        return 'OK';
+
+      case 'GET': {
+        const entry = lookup(rest[0]);
+        if (!entry) return null;
+        return entry.kind === 'string' ? entry.value : wrongType;
+      }
+      case 'SET': {
+        const [key, value, ...options] = rest;
+        let expiresAt: number | null = null;
+        let onlyIfNew = false;
+        for (let i = 0; i < options.length; i++) {
+          const option = options[i].toUpperCase();
+          if (option === 'PX') expiresAt = Date.now() + Number(options[++i]);
+          else if (option === 'EX') expiresAt = Date.now() + Number(options[++i]) * 1000;
+          else if (option === 'NX') onlyIfNew = true;
+          else return new RespError('ERR syntax error');
+        }
+        if (onlyIfNew && lookup(key)) return null;
+        data.set(key, { kind: 'string', value, expiresAt });
+        return 'OK';
+      }
+      case 'INCR': {
+        const entry = lookup(rest[0]);
+        if (entry && entry.kind !== 'string') return wrongType;
+        const value = Number(entry?.value ?? 0) + 1;
+        data.set(rest[0], { kind: 'string', value: String(value), expiresAt: entry?.expiresAt ?? null });
+        return value;
+      }
+      case 'DEL': {
+        let removed = 0;
+        for (const key of rest) {
+          if (lookup(key)) {
+            data.delete(key);
+            removed++;
+          }
+        }
+        return removed;
+      }
+      case 'PEXPIREAT': {
+        const entry = lookup(rest[0]);
+        if (!entry) return 0;
+        entry.expiresAt = Number(rest[1]);
+        return 1;
+      }
+      case 'PEXPIRE': {
+        const entry = lookup(rest[0]);
+        if (!entry) return 0;
+        entry.expiresAt = Date.now() + Number(rest[1]);
+        return 1;
+      }
+      case 'PTTL': {
+        const entry = lookup(rest[0]);
+        if (!entry) return -2;
+        return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+      }
+      case 'PERSIST': {
+        const entry = lookup(rest[0]);
+        if (!entry || entry.expiresAt === null) return 0;
+        entry.expiresAt = null;
+        return 1;
+      }
+
+      case 'HSET': {
+        const hash = hashFor(rest[0], true)!;
+        if (hash instanceof RespError) return hash;
+        let added = 0;
+        for (let i = 1; i + 1 < rest.length; i += 2) {
+          if (!hash.has(rest[i])) added++;
+          hash.set(rest[i], rest[i + 1]);
+        }
+        return added;
+      }
+      case 'HGET': {
+        const hash = hashFor(rest[0], false);
+        if (hash instanceof RespError) return hash;
+        return hash?.get(rest[1]) ?? null;
+      }
+      case 'HGETALL': {
+        const hash = hashFor(rest[0], false);
+        if (hash instanceof RespError) return hash;
+        return hash ? Array.from(hash.entries()).flat() : [];
+      }
+      case 'HDEL': {
+        const hash = hashFor(rest[0], false);
+        if (hash instanceof RespError) return hash;
+        if (!hash) return 0;
+        const removed = rest.slice(1).filter(field => hash.delete(field)).length;
+        dropIfEmpty(rest[0], hash);
+        return removed;
+      }
+      case 'HLEN': {
+        const hash = hashFor(rest[0], false);
+        if (hash instanceof RespError) return hash;
+        return hash?.size ?? 0;
+      }
+      case 'HEXISTS': {
+        const hash = hashFor(rest[0], false);
+        if (hash instanceof RespError) return hash;
+        return hash?.has(rest[1]) ? 1 : 0;
+      }
+      case 'HINCRBY': {
+        const hash = hashFor(rest[0], true)!;
+        if (hash instanceof RespError) return hash;
+        const value = Number(hash.get(rest[1]) ?? 0) + Number(rest[2]);
+        hash.set(rest[1], String(value));
+        return value;
+      }
+
+      case 'SADD': {
+        const set = setFor(rest[0], true)!;
+        if (set instanceof RespError) return set;
+        let added = 0;
+        for (const member of rest.slice(1)) {
+          if (!set.has(member)) added++;
+          set.add(member);
+        }
+        return added;
+      }
+      case 'SREM': {
+        const set = setFor(rest[0], false);
+        if (set instanceof RespError) return set;
+        if (!set) return 0;
+        const removed = rest.slice(1).filter(member => set.delete(member)).length;
+        dropIfEmpty(rest[0], set);
+        return removed;
+      }
+      case 'SISMEMBER': {
+        const set = setFor(rest[0], false);
+        if (set instanceof RespError) return set;
+        return set?.has(rest[1]) ? 1 : 0;
+      }
+
+      case 'RPUSH': {
+        const list = listFor(rest[0], true)!;
+        if (list instanceof RespError) return list;
+        list.push(...rest.slice(1));
+        return list.length;
+      }
+      case 'RPOP': {
+        const list = listFor(rest[0], false);
+        if (list instanceof RespError) return list;
+        const value = list?.pop() ?? null;
+        if (list) dropIfEmpty(rest[0], list);
+        return value;
+      }
+      case 'LRANGE': {
+        const list = listFor(rest[0], false);
+        if (list instanceof RespError) return list;
+        if (!list) return [];
+        const start = Number(rest[1]) < 0 ? Math.max(list.length + Number(rest[1]), 0) : Number(rest[1]);
+        const stop = Number(rest[2]) < 0 ? list.length + Number(rest[2]) : Number(rest[2]);
+        return list.slice(start, stop + 1);
+      }
+
+      case 'PUBLISH': {
+        const subscribers = channels.get(rest[0]);
+        const push = encodeReply(['message', rest[0], rest[1]]);
+        for (const subscriber of Array.from(subscribers ?? [])) {
+          subscriber.write(push);
+        }
+        return subscribers?.size ?? 0;
+      }
+      // One confirmation per channel, as Redis sends
+      case 'SUBSCRIBE':
+        return rest.map(channel => {
+          subscriptions.add(channel);
+          if (!channels.has(channel)) channels.set(channel, new Set());
+          channels.get(channel)!.add(socket);
+          return ['subscribe', channel, subscriptions.size];
+        });
+      case 'UNSUBSCRIBE':
+        return (rest.length ? rest : Array.from(subscriptions)).map(channel => {
+          subscriptions.delete(channel);
+          unsubscribe(socket, channel);
+          return ['unsubscribe', channel, subscriptions.size];
+        });
+
+      default:
+        return new RespError(`ERR unknown command '${name}'`);
+    }
+  };
+
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    let buffer = Buffer.alloc(0);
+    const subscriptions = new Set<string>();
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let offset = 0;
+      while (offset < buffer.length) {
+        let request;
+        try {
+          request = parseReply(buffer, offset);
+        } catch {
+          socket.end(encodeReply(new RespError('ERR Protocol error')));
+          return;
+        }
+        if (!request) break;
+        offset = request.next;
+
+        if (!Array.isArray(request.value) || request.value.length === 0) {
+          socket.write(encodeReply(new RespError('ERR Protocol error')));
+          continue;
+        }
+        const args = request.value.map(String);
+        const reply = execute(socket, subscriptions, args);
+        // (UN)SUBSCRIBE confirms each channel with a reply of its own
+        const name = args[0].toUpperCase();
+        if ((name === 'SUBSCRIBE' || name === 'UNSUBSCRIBE') && Array.isArray(reply)) {
+          socket.write(reply.map(item => encodeReply(item)).join(''));
+        } else {
+          socket.write(encodeReply(reply as RespValue | RespError));
+        }
+      }
+      buffer = buffer.subarray(offset);
+    });
+
+    socket.on('error', () => socket.destroy());
+    socket.on('close', () => {
+      sockets.delete(socket);
+      for (const channel of Array.from(subscriptions)) {
+        unsubscribe(socket, channel);
+      }
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address() as net.AddressInfo;
+      console.log(`[Redis] Stand-in listening on 127.0.0.1:${address.port}`);
+      resolve({
+        url: `redis://127.0.0.1:${address.port}`,
+        close: () => new Promise(done => {
+          server.close(() => done());
+          for (const socket of Array.from(sockets)) {
+            socket.destroy();
+          }
+        })
+      });
+    });
+  });
+}
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizePairingCode } from '@shared/schema';
+import { generateRoomId, generatePairingCode, generateToken, hashToken, verifyToken } from './room-codes';
+
+test('room ids are 128-bit and URL-safe', () => {
+  const ids = new Set<string>();
+  for (let i = 0; i < 1000; i++) {
+    const id = generateRoomId();
+    assert.match(id, /^[A-Za-z0-9_-]{22}$/);
+    ids.add(id);
+  }
+  assert.equal(ids.size, 1000);
+});
+
+test('pairing codes read as adjective-animal-number and survive normalizing', () => {
+  for (let i = 0; i < 1000; i++) {
+    const code = generatePairingCode();
+    assert.match(code, /^[a-z]+-[a-z]+-[1-9]\d$/);
+    assert.equal(normalizePairingCode(code), code);
+    assert.equal(normalizePairingCode(` ${code.toUpperCase().replace(/-/g, ' ')} `), code);
+  }
+});
+
+test('normalizePairingCode refuses anything but a code', () => {
+  for (const input of ['', 'orange-tiger', 'orange-tiger-4', 'orange-tiger-420', 'orange--42', '../tiger-42']) {
+    assert.equal(normalizePairingCode(input), null, input);
+  }
+});
+
+test('tokens verify against their hash only', () => {
+  const token = generateToken();
+  assert.match(token, /^[A-Za-z0-9_-]{43}$/);
+  assert.notEqual(generateToken(), token);
+
+  const hash = hashToken(token);
+  assert.match(hash, /^[0-9a-f]{64}$/);
+  assert.equal(verifyToken(token, hash), true);
+  assert.equal(verifyToken(generateToken(), hash), false);
+  assert.equal(verifyToken(token, hash.slice(2)), false);
+  assert.equal(verifyToken(token, ''), false);
+});
@@ -0,0 +1,69 @@
+import { createHash, randomBytes, randomInt, timingSafeEqual } from "crypto";
+
+// Identifiers for server-allocated rooms.
+//
+// A room has two: a 128-bit random id that goes in share links and is never
+// guessable, and a short pairing code such as "orange-tiger-42" that is easy
+// to read out or type on another device. The code only lives until someone
+// joins with it (or PAIRING_CODE_TTL passes), so the small code space is
+// never exposed for long. The creator also gets an owner token, and every
+// client in a room a resume token; the server only stores them hashed.
+
+export const PAIRING_CODE_TTL = 10 * 60 * 1000; // 10 minutes
+
+const ROOM_ID_BYTES = 16;
+const TOKEN_BYTES = 32;
+
+const ADJECTIVES = [
+  "amber", "azure", "bold", "brave", "bright", "brisk", "calm", "clever",
+  "coral", "cosmic", "crimson", "crisp", "dapper", "daring", "dusty", "eager",
+  "early", "fancy", "fluffy", "frosty", "gentle", "giant", "golden", "grand",
+  "happy", "hazel", "humble", "icy", "indigo", "jolly", "keen", "kind",
+  "lemon", "lively", "lucky", "lunar", "maple", "merry", "mighty", "minty",
+  "misty", "noble", "olive", "orange", "pastel", "peach", "plucky", "polar",
+  "proud", "purple", "quick", "quiet", "rapid", "rosy", "ruby", "rustic",
+  "sandy", "scarlet", "shiny", "silent", "silver", "sleepy", "smooth", "snowy",
+  "solar", "sparkly", "speedy", "spicy", "steady", "stormy", "sunny", "swift",
+  "tidy", "tiny", "violet", "vivid", "warm", "wavy", "wild", "windy",
+  "wise", "witty", "young", "zesty"
+];
+
+const ANIMALS = [
+  "badger", "bat", "bear", "beaver", "bison", "camel", "cat", "cheetah",
+  "cobra", "crab", "crane", "crow", "deer", "dingo", "dolphin", "dove",
+  "duck", "eagle", "eel", "elk", "falcon", "ferret", "finch", "fox",
+  "frog", "gecko", "goat", "goose", "gorilla", "hare", "hawk", "hedgehog",
+  "heron", "hippo", "horse", "ibis", "jaguar", "koala", "lemur", "leopard",
+  "lion", "llama", "lobster", "lynx", "magpie", "marmot", "mole", "moose",
+  "mouse", "newt", "otter", "owl", "panda", "parrot", "pelican", "penguin",
+  "pony", "puffin", "quail", "rabbit", "raven", "robin", "salmon", "seal",
+  "shark", "sheep", "sloth", "snail", "sparrow", "squid", "stork", "swan",
+  "tiger", "toad", "trout", "turtle", "walrus", "whale", "wolf", "wombat",
+  "yak", "zebra"
+];
+
+// URL-safe, so it can go straight into a share link
+export function generateRoomId(): string {
+  return randomBytes(ROOM_ID_BYTES).toString("base64url");
+}
+
+export function generatePairingCode(): string {
+  const adjective = ADJECTIVES[randomInt(ADJECTIVES.length)];
+  const animal = ANIMALS[randomInt(ANIMALS.length)];
+  return `${adjective}-${animal}-${randomInt(10, 100)}`;
+}
+
+// Owner and resume tokens
+export function generateToken(): string {
+  return randomBytes(TOKEN_BYTES).toString("base64url");
+}
+
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function verifyToken(token: string, hash: string): boolean {
+  const actual = Buffer.from(hashToken(token), "hex");
+  const expected = Buffer.from(hash, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,142 @@
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import type { AddressInfo } from 'net';
+import type { CreatedRoom, RoomInfo } from '@shared/schema';
+import { MemStorage, type Room } from './storage';
+import { createRoomsRouter, type RoomsRouterOptions } from './rooms-api';
+
+// The rooms API on a port of its own, with a fresh store, for one test
+async function startApi(t: TestContext, options: RoomsRouterOptions = {}) {
+  const storage = new MemStorage();
+  const app = express();
+  app.use(express.json());
+  app.use('/api/rooms', createRoomsRouter(storage, options));
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise(resolve => server.once('listening', resolve));
+  t.after(() => new Promise(resolve => server.close(resolve)));
+
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/rooms`;
+  return {
+    storage,
+    request: (path: string, init: RequestInit = {}) => fetch(base + path, init),
+    create: (body: object = {}) => fetch(base, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+  };
+}
+
+test('POST creates a room with a pairing code and an owner token', async (t) => {
+  const api = await startApi(t);
+  const res = await api.create({ capacity: 4, expiresInSeconds: 3600 });
+  assert.equal(res.status, 201);
+
+  const room = await res.json() as CreatedRoom;
+  assert.equal(room.capacity, 4);
+  assert.match(room.code, /^[a-z]+-[a-z]+-\d{2}$/);
+  assert.ok(room.ownerToken);
+  assert.ok(Math.abs(room.expiresAt - (Date.now() + 3600 * 1000)) < 5000);
+
+  const stored = await api.storage.getRoom(room.roomId);
+  assert.equal(stored?.code, room.code);
+  assert.notEqual(stored?.ownerTokenHash, room.ownerToken);
+});
+
+test('POST refuses options out of range', async (t) => {
+  const api = await startApi(t);
+  for (const body of [{ capacity: 1 }, { capacity: 9 }, { expiresInSeconds: 30 }, { capacity: '2' }]) {
+    const res = await api.create(body);
+    assert.equal(res.status, 400, JSON.stringify(body));
+  }
+  assert.equal(await api.storage.countRooms(), 0);
+});
+
+test('POST limits the rooms one address creates', async (t) => {
+  const api = await startApi(t);
+  for (let i = 0; i < 20; i++) {
+    assert.equal((await api.create()).status, 201);
+  }
+  const res = await api.create();
+  assert.equal(res.status, 429);
+  assert.equal(res.headers.get('retry-after'), '3600');
+});
+
+test('GET by-code resolves a pairing code however it is typed', async (t) => {
+  const api = await startApi(t);
+  const room = await (await api.create()).json() as CreatedRoom;
+
+  for (const typed of [room.code, room.code.toUpperCase(), room.code.replace(/-/g, ' ')]) {
+    const res = await api.request(`/by-code/${encodeURIComponent(typed)}`);
+    assert.equal(res.status, 200, typed);
+    assert.deepEqual(await res.json(), { roomId: room.roomId });
+  }
+
+  // Used up once the room fills
+  await api.storage.releaseRoomCode(room.roomId);
+  assert.equal((await api.request(`/by-code/${room.code}`)).status, 404);
+});
+
+test('GET by-code shuts out an address that keeps missing', async (t) => {
+  const api = await startApi(t);
+  const room = await (await api.create()).json() as CreatedRoom;
+
+  for (let i = 0; i < 5; i++) {
+    assert.equal((await api.request('/by-code/no-such-42')).status, 404);
+  }
+  // Even the right code, for the rest of the miss window
+  const res = await api.request(`/by-code/${room.code}`);
+  assert.equal(res.status, 429);
+  assert.equal(res.headers.get('retry-after'), '900');
+});
+
+test('GET by-code limits lookups per address', async (t) => {
+  const api = await startApi(t);
+  const room = await (await api.create()).json() as CreatedRoom;
+
+  for (let i = 0; i < 10; i++) {
+    assert.equal((await api.request(`/by-code/${room.code}`)).status, 200);
+  }
+  const res = await api.request(`/by-code/${room.code}`);
+  assert.equal(res.status, 429);
+  assert.equal(res.headers.get('retry-after'), '60');
+});
+
+test('GET describes a room', async (t) => {
+  const api = await startApi(t);
+  const room = await (await api.create({ capacity: 2 })).json() as CreatedRoom;
+  await api.storage.addClientToRoom(room.roomId, 'a', 'identity-a', 'resume-a');
+  await api.storage.addClientToRoom(room.roomId, 'b', 'identity-b', 'resume-b');
+
+  const info = await (await api.request(`/${room.roomId}`)).json() as RoomInfo;
+  assert.equal(info.exists, true);
+  assert.equal(info.occupancy, 2);
+  assert.equal(info.full, true);
+  assert.equal(info.locked, false);
+  assert.equal(info.expired, false);
+  assert.equal(info.expiresAt, room.expiresAt);
+
+  const missing = await api.request('/no-such-room');
+  assert.equal(missing.status, 404);
+  assert.equal((await missing.json()).exists, false);
+});
+
+test('DELETE needs the owner token', async (t) => {
+  const deleted: Room[] = [];
+  const api = await startApi(t, { onRoomDeleted: room => { deleted.push(room); } });
+  const room = await (await api.create()).json() as CreatedRoom;
+  const remove = (token?: string) => api.request(`/${room.roomId}`, {
+    method: 'DELETE',
+    headers: token ? { Authorization: `Bearer ${token}` } : {}
+  });
+
+  assert.equal((await remove()).status, 401);
+  assert.equal((await remove('not-the-owner-token')).status, 403);
+  assert.equal(deleted.length, 0);
+
+  assert.equal((await remove(room.ownerToken)).status, 204);
+  assert.deepEqual(deleted.map(room => room.id), [room.roomId]);
+  assert.equal(await api.storage.getRoom(room.roomId), undefined);
+  assert.equal((await remove(room.ownerToken)).status, 404);
+});
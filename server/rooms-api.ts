@@ -0,0 +1,157 @@
+import { Router, type Request, type Response, type NextFunction } from "express";
+import type { IRoomStore, Room } from "./storage";
+import { generateToken, verifyToken } from "./room-codes";
+import { clientAddress } from "./client-address";
+import {
+  createRoomRequestSchema,
+  normalizePairingCode,
+  type CreatedRoom,
+  type RoomInfo
+} from "@shared/schema";
+
+// REST endpoints for the room lifecycle, on top of IRoomStore:
+//   POST   /api/rooms                create a room (optional capacity, expiry)
+//   GET    /api/rooms/by-code/:code  resolve a pairing code to its room
+//   GET    /api/rooms/:roomId        inspect a room (occupancy, age, expiry)
+//   DELETE /api/rooms/:roomId        delete a room (owner token required)
+
+// Rooms open at once across all instances; each holds a pairing code for a
+// while, and there are only so many of those
+const MAX_ROOMS = Number(process.env.MAX_ROOMS) || 10000;
+// Rooms one address may create per window
+const ROOM_CREATIONS = 20;
+const ROOM_CREATION_WINDOW = 60 * 60 * 1000;
+// Pairing code lookups one address may make per window. A code is short
+// enough to guess, so this is stricter, and an address that keeps trying
+// codes that do not exist is shut out for the rest of the miss window.
+const CODE_LOOKUPS = 10;
+const CODE_LOOKUP_WINDOW = 60 * 1000;
+const CODE_MISSES = 5;
+const CODE_MISS_WINDOW = 15 * 60 * 1000;
+
+export interface RoomsRouterOptions {
+  // Called before a deleted room is removed, so its clients can be told
+  onRoomDeleted?: (room: Room) => void | Promise<void>;
+}
+
+type AsyncHandler = (req: Request, res: Response) => Promise<unknown>;
+
+// Hands failures (say, a lost Redis connection) to the error middleware
+function handle(handler: AsyncHandler) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+}
+
+function bearerToken(req: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization ?? '');
+  return match ? match[1] : null;
+}
+
+// Retry-After is the whole window, the longest the caller may have to wait
+function tooManyRequests(res: Response, windowMs: number, message: string) {
+  return res
+    .status(429)
+    .set('Retry-After', String(Math.ceil(windowMs / 1000)))
+    .json({ message });
+}
+
+function describeRoom(room: Room): RoomInfo {
+  const now = Date.now();
+  return {
+    exists: true,
+    roomId: room.id,
+    occupancy: room.clients.length,
+    capacity: room.capacity,
+    full: room.clients.length >= room.capacity,
+    locked: room.locked,
+    expired: room.expiresAt <= now,
+    createdAt: room.createdAt,
+    ageSeconds: Math.floor((now - room.createdAt) / 1000),
+    expiresAt: room.expiresAt
+  };
+}
+
+export function createRoomsRouter(storage: IRoomStore, options: RoomsRouterOptions = {}): Router {
+  const router = Router();
+
+  // Rooms are only created here, never by joining an unknown id
+  router.post('/', handle(async (req, res) => {
+    const parsed = createRoomRequestSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ message: 'Invalid room options', issues: parsed.error.issues });
+    }
+
+    const address = clientAddress(req);
+    if (await storage.addHit(`rooms-created:${address}`, ROOM_CREATION_WINDOW) > ROOM_CREATIONS) {
+      return tooManyRequests(res, ROOM_CREATION_WINDOW, 'Too many rooms created; try again later');
+    }
+    if (await storage.countRooms() >= MAX_ROOMS) {
+      return res.status(503).json({ message: 'Too many rooms are open right now; try again later' });
+    }
+
+    const ownerToken = generateToken();
+    const room = await storage.createRoom(ownerToken, {
+      capacity: parsed.data.capacity,
+      ttlSeconds: parsed.data.expiresInSeconds
+    });
+    const created: CreatedRoom = {
+      roomId: room.id,
+      code: room.code!,
+      codeExpiresAt: room.codeExpiresAt,
+      ownerToken,
+      capacity: room.capacity,
+      expiresAt: room.expiresAt
+    };
+    res.status(201).json(created);
+  }));
+
+  // Resolves a pairing code to its room; the code stays valid until a peer
+  // actually joins the room
+  router.get('/by-code/:code', handle(async (req, res) => {
+    const address = clientAddress(req);
+    if (await storage.getHits(`code-misses:${address}`) >= CODE_MISSES) {
+      return tooManyRequests(res, CODE_MISS_WINDOW, 'Too many wrong pairing codes; try again later');
+    }
+    if (await storage.addHit(`code-lookups:${address}`, CODE_LOOKUP_WINDOW) > CODE_LOOKUPS) {
+      return tooManyRequests(res, CODE_LOOKUP_WINDOW, 'Too many pairing code lookups; try again later');
+    }
+
+    const code = normalizePairingCode(req.params.code);
+    const room = code ? await storage.getRoomByCode(code) : undefined;
+    if (!room) {
+      await storage.addHit(`code-misses:${address}`, CODE_MISS_WINDOW);
+      return res.status(404).json({ message: 'No room with that code' });
+    }
+    res.json({ roomId: room.id });
+  }));
+
+  router.get('/:roomId', handle(async (req, res) => {
+    const room = await storage.getRoom(req.params.roomId);
+    if (!room) {
+      return res.status(404).json({ exists: false, message: 'No such room' });
+    }
+    res.json(describeRoom(room));
+  }));
+
+  router.delete('/:roomId', handle(async (req, res) => {
+    const room = await storage.getRoom(req.params.roomId);
+    if (!room) {
+      return res.status(404).json({ message: 'No such room' });
+    }
+
+    const token = bearerToken(req);
+    if (!token) {
+      return res.status(401).json({ message: 'Owner token required' });
+    }
+    if (!verifyToken(token, room.ownerTokenHash)) {
+      return res.status(403).json({ message: 'Invalid owner token' });
+    }
+
+    await options.onRoomDeleted?.(room);
+    await storage.cleanupRoom(room.id);
+    res.status(204).end();
+  }));
+
+  return router;
+}
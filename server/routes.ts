@@ -1,130 +1,582 @@
 import type { Express } from "express";
-import { createServer, type Server } from "http";
+import { createServer, type Server, type IncomingMessage } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import type { SignalingMessage } from "@shared/schema";
+import { createRoomsRouter } from "./rooms-api";
+import { createClientKeysRouter, clientIdentity, isIssuedClientKey } from "./client-keys";
+import { clientAddress } from "./client-address";
+import { generateToken, hashToken, verifyToken } from "./room-codes";
+import { createSignalingBackend, type SignalingBackend } from "./signaling-backend";
+import type { ClientDelivery, Room } from "./storage";
+import {
+  clientMessageSchema,
+  type ClientMessage,
+  type SignalingErrorCode,
+  type SignalingMessage
+} from "@shared/schema";
 import { randomUUID } from "crypto";
 
-export async function registerRoutes(app: Express): Promise<Server> {
+// Largest message a client may send; sealed SDP offers are a few KB
+const MAX_MESSAGE_SIZE = 64 * 1024;
+// Each client may send a burst of this many messages (ICE candidates for a
+// full room come in a rush), then this many per second
+const MESSAGE_BURST = 200;
+const MESSAGES_PER_SECOND = 50;
+// How often every socket is pinged, and how long one may go without a pong
+// (or any message) before it is dropped as gone, in milliseconds. A client
+// that vanishes without closing its socket, such as a laptop put to sleep,
+// otherwise holds its place in the room for good.
+const HEARTBEAT_INTERVAL = Number(process.env.SIGNALING_HEARTBEAT_INTERVAL_MS) || 30 * 1000;
+const HEARTBEAT_TIMEOUT = Number(process.env.SIGNALING_HEARTBEAT_TIMEOUT_MS) || 2 * HEARTBEAT_INTERVAL;
+// How long a client whose socket dropped keeps its place in the room, for
+// it to reconnect and resume; its peers only hear it left after that
+const RESUME_GRACE = Number(process.env.SIGNALING_RESUME_GRACE_MS) || 30 * 1000;
+// Wrong room passwords one client (by identity, so across connections) may
+// try in a room before the server stops relaying its password checks. Peers
+// told of a newcomer check its password: the newcomer's 'pake-share' answers
+// are its guesses, and only the checker's 'pake-failed' after one of them
+// counts against it. Nothing else a member sends can lock anyone out.
+const MAX_PASSWORD_FAILURES = 10;
+// Close codes of a client that meant to go (a normal close, or leaving the
+// page); any other close may be a dropped connection
+const INTENTIONAL_CLOSE_CODES = [1000, 1001];
+
+// Set when checker is told guesser joined
+const passwordCheckKey = (roomId: string, checkerId: string, guesserId: string) =>
+  `password-check:${roomId}:${checkerId}:${guesserId}`;
+// Shares the guesser sent the checker, and how many of them the checker
+// turned down; a rejection counts only while it has a guess to answer
+const passwordGuessesKey = (roomId: string, checkerId: string, guesserId: string) =>
+  `password-guesses:${roomId}:${checkerId}:${guesserId}`;
+const passwordRejectionsKey = (roomId: string, checkerId: string, guesserId: string) =>
+  `password-rejections:${roomId}:${checkerId}:${guesserId}`;
+const passwordFailuresKey = (roomId: string, identity: string) => `password-failures:${roomId}:${identity}`;
+
+// Counters about a room are kept for as long as it can be joined
+function roomLifetime(room: Room | undefined): number {
+  return Math.max((room?.expiresAt ?? 0) - Date.now(), 60 * 1000);
+}
+
+function send(ws: WebSocket, message: SignalingMessage): void {
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify(message));
+  }
+}
+
+function sendError(ws: WebSocket, code: SignalingErrorCode, message: string): void {
+  send(ws, { type: 'error', message, code });
+}
+
+// Parses and checks a client's message; null if it is not one the protocol
+// allows a client to send
+function parseClientMessage(data: Buffer): ClientMessage | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(data.toString());
+  } catch {
+    return null;
+  }
+  const parsed = clientMessageSchema.safeParse(json);
+  return parsed.success ? parsed.data : null;
+}
+
+// Room state lives in the backend's store and every message to a client goes
+// through its pub/sub, so peers in one room may be connected to different
+// instances of this server
+export async function registerRoutes(app: Express, backend?: SignalingBackend): Promise<Server> {
+  const { store, pubsub, healthy } = backend ?? await createSignalingBackend();
+
+  // Sends to a client on whichever instance holds its socket
+  const deliver = (clientId: string, message: SignalingMessage, close = false): Promise<void> =>
+    pubsub.publish(clientId, { message, close });
+
+  // For load balancers and supervisors: 503 while the backend is unreachable
+  app.get('/api/health', (_req, res) => {
+    const ok = healthy();
+    res.status(ok ? 200 : 503).json({ status: ok ? 'ok' : 'unavailable' });
+  });
+
+  app.use('/api/client-keys', createClientKeysRouter(store));
+  app.use('/api/rooms', createRoomsRouter(store, {
+    // Tell everyone still in (or knocking on) a deleted room, then drop
+    // their sockets
+    onRoomDeleted: async (room) => {
+      const clientIds = room.clients.map(client => client.id).concat(room.knocks);
+      await Promise.all(clientIds.map(clientId => deliver(clientId, {
+        type: 'error',
+        message: 'This room has been deleted',
+        code: 'ROOM_NOT_FOUND'
+      }, true)));
+    }
+  }));
+
   const httpServer = createServer(app);
 
   // WebSocket server for WebRTC signaling on /ws path
   // This ensures it doesn't conflict with Vite's HMR websocket
-  const wss = new WebSocketServer({ 
-    server: httpServer, 
-    path: '/ws' 
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    maxPayload: MAX_MESSAGE_SIZE
   });
 
-  // Track client IDs to room mappings
-  const clientRooms = new Map<string, string>();
+  // When each socket was last heard from
+  const lastSeen = new Map<WebSocket, number>();
 
-  wss.on('connection', (ws: WebSocket) => {
-    const clientId = randomUUID();
-    console.log(`[WebSocket] New client connected: ${clientId}`);
+  // Terminating skips the closing handshake a dead peer would never finish;
+  // the socket then closes like any other, so the client leaves its room
+  const heartbeat = setInterval(() => {
+    const now = Date.now();
+    for (const [ws, seen] of Array.from(lastSeen.entries())) {
+      if (now - seen > HEARTBEAT_TIMEOUT) {
+        console.warn('[WebSocket] Dropping unresponsive client');
+        lastSeen.delete(ws);
+        ws.terminate();
+      } else if (ws.readyState === WebSocket.OPEN) {
+        ws.ping();
+      }
+    }
+  }, HEARTBEAT_INTERVAL);
 
-    ws.on('message', (data: Buffer) => {
-      try {
-        const message: SignalingMessage = JSON.parse(data.toString());
-        console.log(`[WebSocket] Message from ${clientId}:`, message.type);
-
-        switch (message.type) {
-          case 'join': {
-            const { roomId } = message;
-            
-            // Create room if it doesn't exist
-            if (!storage.getRoom(roomId)) {
-              storage.createRoom(roomId);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  // Puts a client in the room and introduces it to the peers already there
+  const admitClient = async (roomId: string, clientId: string, identity: string, owner: boolean): Promise<boolean> => {
+    const resumeToken = generateToken();
+    const peers = await store.addClientToRoom(roomId, clientId, identity, hashToken(resumeToken));
+    const room = await store.getRoom(roomId);
+    if (!peers || !room) {
+      return false;
+    }
+
+    // The client's id, and who is already here; those peers start
+    // the connections to it
+    await deliver(clientId, {
+      type: 'joined',
+      peerId: clientId,
+      peers,
+      owner,
+      locked: room.locked,
+      resumeToken
+    });
+
+    // Notify the others in the room that a peer has joined; each checks
+    // the newcomer's room password, if there is one
+    await Promise.all(peers.map(peerId =>
+      store.addHit(passwordCheckKey(roomId, peerId, clientId), roomLifetime(room))
+    ));
+    await Promise.all(peers.map(peerId => deliver(peerId, { type: 'peer-joined', peerId: clientId })));
+    console.log(`[WebSocket] Notified ${peers.length} peer(s) in room ${roomId} of new join`);
+
+    // Full: the pairing code has done its job
+    if (room.clients.length >= room.capacity) {
+      await store.releaseRoomCode(roomId);
+    }
+    return true;
+  };
+
+  // Tells everyone still in the room that a client has left it for good
+  const announceLeft = async (roomId: string, clientId: string): Promise<void> => {
+    const room = await store.getRoom(roomId);
+    if (!room) return;
+
+    // Notify the others in the room that this client left
+    await Promise.all(room.clients.map(client => deliver(client.id, { type: 'peer-left', peerId: clientId })));
+    console.log(`[WebSocket] Notified room ${roomId} of disconnect`);
+
+    // Knocks wait for the owner to come back
+    if (room.ownerId === clientId) {
+      await store.setRoomOwner(roomId, null);
+    }
+  };
+
+  // Turns a knocking client away and closes its socket
+  const turnAway = async (roomId: string, clientId: string, message: SignalingMessage): Promise<void> => {
+    if (await store.removeKnock(roomId, clientId) === undefined) return;
+    await deliver(clientId, message, true);
+  };
+
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    // This connection; the client's id too, unless it resumes an earlier one
+    const session = randomUUID();
+    let clientId: string = session;
+    // The room this client is in, and the one it is waiting to get into
+    let currentRoom: string | null = null;
+    let knockedOn: string | null = null;
+    // Set once the client resumed on another socket
+    let superseded = false;
+    console.log(`[WebSocket] New client connected: ${clientId} from ${clientAddress(req)}`);
+
+    lastSeen.set(ws, Date.now());
+    ws.on('pong', () => lastSeen.set(ws, Date.now()));
+
+    // Everything for this client arrives here, from this instance or another
+    const handleDelivery = ({ message, close, takeover }: ClientDelivery): void => {
+      if (superseded) return;
+      if (takeover) {
+        console.log(`[WebSocket] Client ${clientId} resumed elsewhere`);
+        superseded = true;
+        currentRoom = null;
+        ws.terminate();
+        return;
+      }
+
+      // Being let in is decided wherever the owner is connected
+      if (message?.type === 'joined' && knockedOn) {
+        currentRoom = knockedOn;
+        knockedOn = null;
+      }
+      if (message) {
+        send(ws, message);
+      }
+      if (close) {
+        ws.close();
+      }
+    };
+    const subscribed = pubsub.subscribe(clientId, handleDelivery);
+
+    // Takes back the place of a client whose socket dropped; false if the
+    // token is wrong or the place is gone
+    const resume = async (room: Room, peerId: string, token: string): Promise<boolean> => {
+      const member = room.clients.find(client => client.id === peerId);
+      if (!member || !verifyToken(token, member.resumeTokenHash)) return false;
+      if (member.awayUntil !== null && member.awayUntil <= Date.now()) return false;
+
+      // The old socket may not have noticed it is dead yet; it goes now
+      if (member.awayUntil === null) {
+        await pubsub.publish(peerId, { takeover: true });
+      }
+      if (!await store.resumeClient(room.id, peerId, session)) return false;
+
+      await pubsub.unsubscribe(clientId, handleDelivery);
+      clientId = peerId;
+      currentRoom = room.id;
+      // Before whatever was held for the client while it was away
+      send(ws, { type: 'resumed', peerId });
+      await pubsub.subscribe(clientId, handleDelivery);
+      console.log(`[WebSocket] Client ${clientId} resumed in room ${room.id}`);
+      return true;
+    };
+
+    // Token bucket for this client's messages
+    let tokens = MESSAGE_BURST;
+    let refilledAt = Date.now();
+    // Dropped messages are reported at most once a second, not each
+    let limitReportedAt = 0;
+
+    const allowMessage = (): boolean => {
+      const now = Date.now();
+      tokens = Math.min(MESSAGE_BURST, tokens + (now - refilledAt) / 1000 * MESSAGES_PER_SECOND);
+      refilledAt = now;
+      if (tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    };
+
+    // The room this client owns, if it is in one it owns; null otherwise
+    const ownedRoom = async (): Promise<string | null> => {
+      if (!currentRoom) {
+        sendError(ws, 'NOT_IN_ROOM', 'Join a room first');
+        return null;
+      }
+      if ((await store.getRoom(currentRoom))?.ownerId === clientId) {
+        return currentRoom;
+      }
+      sendError(ws, 'NOT_OWNER', 'Only the room owner can do that');
+      return null;
+    };
+
+    const handleMessage = async (message: ClientMessage): Promise<void> => {
+      console.log(`[WebSocket] Message from ${clientId}:`, message.type);
+
+      switch (message.type) {
+        case 'join': {
+          const { roomId } = message;
+          if (currentRoom || knockedOn) break;
+
+          // Only rooms created through /api/rooms can be joined
+          const room = await store.getRoom(roomId);
+          if (!room) {
+            sendError(ws, 'ROOM_NOT_FOUND', 'This room does not exist');
+            break;
+          }
+          // Peers already in a room stay after it expires, so resuming works
+          // then too; failing that, the client joins like anyone else
+          if (message.resume && await resume(room, message.resume.peerId, message.resume.token)) {
+            break;
+          }
+          if (room.expiresAt <= Date.now()) {
+            sendError(ws, 'ROOM_EXPIRED', 'This room has expired');
+            break;
+          }
+
+          const isOwner = !!message.ownerToken && verifyToken(message.ownerToken, room.ownerTokenHash);
+          // Kicks ban the key rather than an address, which a whole network
+          // may share. Keys are issued, and only so many per address, so a
+          // kicked client cannot simply make up another.
+          if (!await isIssuedClientKey(store, message.clientKey)) {
+            sendError(ws, 'UNKNOWN_CLIENT_KEY', 'This browser needs a new client key');
+            break;
+          }
+          const identity = clientIdentity(message.clientKey);
+
+          if (isOwner) {
+            if (!await admitClient(roomId, clientId, identity, true)) {
+              sendError(ws, 'ROOM_FULL', 'This room is full');
+              break;
             }
+            currentRoom = roomId;
+            await store.setRoomOwner(roomId, clientId);
 
-            // Add client to room
-            const added = storage.addClientToRoom(roomId, clientId, ws);
-            
-            if (added) {
-              clientRooms.set(clientId, roomId);
-              
-              // Notify other client in room that a peer has joined
-              const otherClient = storage.getOtherClientInRoom(roomId, clientId);
-              if (otherClient && otherClient.readyState === WebSocket.OPEN) {
-                otherClient.send(JSON.stringify({ type: 'peer-joined' }));
-                console.log(`[WebSocket] Notified peer in room ${roomId} of new join`);
-              }
-            } else {
-              // Room is full or error occurred
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify({ 
-                  type: 'error', 
-                  message: 'Room is full or unavailable' 
-                }));
-              }
+            // Whoever knocked while the owner was away
+            for (const knockerId of room.knocks) {
+              send(ws, { type: 'knock', peerId: knockerId });
             }
             break;
           }
 
-          case 'offer':
-          case 'answer':
-          case 'ice-candidate': {
-            // Forward signaling messages to the other peer in the room
-            const roomId = clientRooms.get(clientId);
-            
-            if (!roomId) {
-              console.error(`[WebSocket] Client ${clientId} not in any room`);
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify({ 
-                  type: 'error', 
-                  message: 'Not in a room' 
-                }));
-              }
-              break;
+          if (await store.isIdentityBanned(roomId, identity)) {
+            sendError(ws, 'KICKED', 'You have been removed from this room');
+            break;
+          }
+          if (room.locked) {
+            sendError(ws, 'ROOM_LOCKED', 'This room is locked');
+            break;
+          }
+          if (room.clients.length >= room.capacity) {
+            sendError(ws, 'ROOM_FULL', 'This room is full');
+            break;
+          }
+
+          // Everyone else waits for the owner, who may not be here yet
+          await store.addKnock(roomId, clientId, identity);
+          knockedOn = roomId;
+          send(ws, { type: 'knocking' });
+
+          if (room.ownerId) {
+            await deliver(room.ownerId, { type: 'knock', peerId: clientId });
+          }
+          console.log(`[WebSocket] Client ${clientId} knocked on room ${roomId}`);
+          break;
+        }
+
+        case 'knock-response': {
+          const roomId = await ownedRoom();
+          if (!roomId) break;
+
+          if (!message.admit) {
+            await turnAway(roomId, message.peerId, {
+              type: 'error',
+              message: 'The room owner declined your request to join',
+              code: 'KNOCK_REJECTED'
+            });
+            break;
+          }
+
+          const knockerIdentity = await store.removeKnock(roomId, message.peerId);
+          if (knockerIdentity === undefined) break;
+
+          if (!await admitClient(roomId, message.peerId, knockerIdentity, false)) {
+            await deliver(message.peerId, { type: 'error', message: 'This room is full', code: 'ROOM_FULL' }, true);
+          }
+          break;
+        }
+
+        case 'lock-room': {
+          const roomId = await ownedRoom();
+          if (!roomId) break;
+
+          await store.setRoomLocked(roomId, message.locked);
+          const room = await store.getRoom(roomId);
+          if (!room) break;
+          await Promise.all(room.clients.map(client =>
+            deliver(client.id, { type: 'room-locked', locked: message.locked })));
+
+          // Nobody gets in any more, including those already waiting
+          if (message.locked) {
+            for (const knockerId of room.knocks) {
+              await turnAway(roomId, knockerId, { type: 'error', message: 'This room is locked', code: 'ROOM_LOCKED' });
             }
+          }
+          break;
+        }
+
+        case 'kick': {
+          const roomId = await ownedRoom();
+          if (!roomId) break;
+
+          const room = await store.getRoom(roomId);
+          const target = message.peerId !== clientId
+            ? room?.clients.find(client => client.id === message.peerId)
+            : undefined;
+          if (!target) {
+            sendError(ws, 'PEER_NOT_FOUND', 'No such peer in this room');
+            break;
+          }
+
+          // Out at once, so the kicked client cannot resume its place
+          await store.banIdentity(roomId, target.identity);
+          await store.removeClientFromRoom(roomId, target.id);
+          await announceLeft(roomId, target.id);
+          await pubsub.release(target.id);
+          await deliver(target.id, { type: 'error', message: 'You have been removed from this room', code: 'KICKED' }, true);
+          console.log(`[WebSocket] Client ${target.id} kicked from room ${roomId}`);
+          break;
+        }
+
+        case 'offer':
+        case 'answer':
+        case 'ice-candidate':
+        case 'pake-share':
+        case 'pake-confirm':
+        case 'pake-failed':
+        case 'pake-retry':
+        case 'sealed-signal': {
+          // Forward signaling messages to the peer they are addressed to.
+          // Sealed signals are opaque: only their kind is readable here.
+          // Room passwords are checked between the peers; the server only
+          // relays their SPAKE2 messages and never learns the password.
+          const signalKind = message.type === 'sealed-signal' ? message.kind : message.type;
+          const kind = message.type === 'sealed-signal' ? `sealed ${message.kind}` : message.type;
+          const roomId = currentRoom;
 
-            const otherClient = storage.getOtherClientInRoom(roomId, clientId);
-            
-            if (otherClient && otherClient.readyState === WebSocket.OPEN) {
-              // Forward the exact message to the peer
-              otherClient.send(JSON.stringify(message));
-              console.log(`[WebSocket] Forwarded ${message.type} in room ${roomId}`);
-            } else {
-              console.warn(`[WebSocket] No peer to forward ${message.type} to in room ${roomId}`);
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify({ 
-                  type: 'error', 
-                  message: 'No peer connected' 
-                }));
+          if (!roomId) {
+            console.error(`[WebSocket] Client ${clientId} not in any room`);
+            sendError(ws, 'NOT_IN_ROOM', 'Not in a room');
+            break;
+          }
+
+          const to = message.to;
+          if (to && to !== clientId && await store.isClientInRoom(roomId, to)) {
+            const isPasswordAttempt = signalKind === 'pake-share' || signalKind === 'pake-retry';
+            if (isPasswordAttempt || signalKind === 'pake-failed') {
+              const room = await store.getRoom(roomId);
+              const identityOf = (id: string) => room?.clients.find(client => client.id === id)?.identity;
+
+              if (isPasswordAttempt) {
+                const identity = identityOf(clientId);
+                if (identity && await store.getHits(passwordFailuresKey(roomId, identity)) >= MAX_PASSWORD_FAILURES) {
+                  sendError(ws, 'PASSWORD_LOCKED', 'Too many wrong room passwords. Ask the owner to create a new room.');
+                  console.warn(`[WebSocket] Refused ${kind} from ${clientId} in room ${roomId}: too many wrong passwords`);
+                  break;
+                }
+                if (signalKind === 'pake-share' && await store.getHits(passwordCheckKey(roomId, to, clientId)) > 0) {
+                  await store.addHit(passwordGuessesKey(roomId, to, clientId), roomLifetime(room));
+                }
+              } else if (await store.getHits(passwordGuessesKey(roomId, clientId, to))
+                > await store.getHits(passwordRejectionsKey(roomId, clientId, to))) {
+                await store.addHit(passwordRejectionsKey(roomId, clientId, to), roomLifetime(room));
+                const guesser = identityOf(to);
+                if (guesser) {
+                  await store.addHit(passwordFailuresKey(roomId, guesser), roomLifetime(room));
+                }
               }
             }
-            break;
+
+            // Forward the message, stamped with who really sent it
+            await deliver(to, { ...message, from: clientId });
+            console.log(`[WebSocket] Forwarded ${kind} in room ${roomId}`);
+          } else {
+            console.warn(`[WebSocket] No peer to forward ${kind} to in room ${roomId}`);
+            sendError(ws, 'PEER_NOT_FOUND', 'No such peer in this room');
           }
+          break;
+        }
+      }
+    };
 
-          default:
-            console.warn(`[WebSocket] Unknown message type from ${clientId}`);
+    const handleClose = async (code: number): Promise<void> => {
+      if (superseded) {
+        await pubsub.unsubscribe(clientId, handleDelivery);
+        return;
+      }
+
+      // A knock nobody answered
+      if (knockedOn) {
+        const roomId = knockedOn;
+        knockedOn = null;
+        if (await store.removeKnock(roomId, clientId) !== undefined) {
+          const ownerId = (await store.getRoom(roomId))?.ownerId;
+          if (ownerId) {
+            await deliver(ownerId, { type: 'knock-withdrawn', peerId: clientId });
+          }
         }
-      } catch (error) {
-        console.error('[WebSocket] Error processing message:', error);
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({ 
-            type: 'error', 
-            message: 'Invalid message format' 
-          }));
+      }
+
+      const roomId = currentRoom;
+      currentRoom = null;
+      if (!roomId || INTENTIONAL_CLOSE_CODES.includes(code)) {
+        await pubsub.unsubscribe(clientId, handleDelivery);
+        if (roomId) {
+          await store.removeClientFromRoom(roomId, clientId);
+          await announceLeft(roomId, clientId);
         }
+        return;
       }
-    });
 
-    ws.on('close', () => {
-      console.log(`[WebSocket] Client disconnected: ${clientId}`);
-      
-      const roomId = clientRooms.get(clientId);
-      if (roomId) {
-        // Notify the other peer that this client left
-        const otherClient = storage.getOtherClientInRoom(roomId, clientId);
-        if (otherClient && otherClient.readyState === WebSocket.OPEN) {
-          otherClient.send(JSON.stringify({ type: 'peer-left' }));
-          console.log(`[WebSocket] Notified peer in room ${roomId} of disconnect`);
+      // The connection may only have dropped: keep the client's place and
+      // what is sent to it for a while, in case it comes back
+      if (!await store.setClientAway(roomId, clientId, session, Date.now() + RESUME_GRACE)) {
+        // Gone from the room already, or resumed on another socket
+        await pubsub.unsubscribe(clientId, handleDelivery);
+        return;
+      }
+      await pubsub.hold(clientId, RESUME_GRACE);
+      await pubsub.unsubscribe(clientId, handleDelivery);
+      console.log(`[WebSocket] Holding place of ${clientId} in room ${roomId}`);
+
+      const id = clientId;
+      setTimeout(async () => {
+        try {
+          // Not if it resumed meanwhile
+          if (!await store.removeAwayClient(roomId, id, session)) return;
+          await pubsub.release(id);
+          await announceLeft(roomId, id);
+        } catch (error) {
+          console.error(`[WebSocket] Error removing client ${id}:`, error);
+        }
+      }, RESUME_GRACE);
+    };
+
+    // Messages are handled one at a time and in order, as each may wait on
+    // the store
+    let queue: Promise<void> = subscribed;
+
+    ws.on('message', (data: Buffer) => {
+      lastSeen.set(ws, Date.now());
+      if (!allowMessage()) {
+        if (Date.now() - limitReportedAt >= 1000) {
+          limitReportedAt = Date.now();
+          console.warn(`[WebSocket] Rate limiting client ${clientId}`);
+          sendError(ws, 'RATE_LIMITED', 'Too many messages; slow down');
         }
+        return;
+      }
 
-        // Remove client from room
-        storage.removeClientFromRoom(roomId, clientId);
-        clientRooms.delete(clientId);
+      const message = parseClientMessage(data);
+      if (!message) {
+        console.warn(`[WebSocket] Malformed message from ${clientId}`);
+        sendError(ws, 'BAD_MESSAGE', 'Malformed or unknown message');
+        return;
       }
+
+      // Answered straight away; it needs no room state
+      if (message.type === 'ping') {
+        send(ws, { type: 'pong' });
+        return;
+      }
+
+      queue = queue.then(() => handleMessage(message)).catch((error) => {
+        console.error('[WebSocket] Error processing message:', error);
+        sendError(ws, 'SERVER_ERROR', 'The server could not handle that message');
+      });
+    });
+
+    ws.on('close', (code: number) => {
+      console.log(`[WebSocket] Client disconnected: ${clientId}`);
+      lastSeen.delete(ws);
+      queue = queue.then(() => handleClose(code)).catch((error) => {
+        console.error(`[WebSocket] Error cleaning up client ${clientId}:`, error);
+      });
     });
 
     ws.on('error', (error) => {
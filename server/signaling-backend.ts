@@ -0,0 +1,69 @@
+import { storage, MemPubSub, type IRoomPubSub, type IRoomStore } from "./storage";
+import { RespClient } from "./resp-client";
+import { RedisRoomStore, RedisPubSub } from "./redis-storage";
+import { startRespStandIn } from "./resp-stand-in";
+
+// Where rooms are kept and how signaling messages reach clients. In memory
+// for a single instance; through Redis when several instances share rooms.
+export interface SignalingBackend {
+  store: IRoomStore;
+  pubsub: IRoomPubSub;
+  // False while the backend cannot be reached; reported by /api/health
+  healthy: () => boolean;
+}
+
+const DEFAULT_STAND_IN_PORT = 6390;
+
+// Picked from the environment:
+//   REDIS_URL       share rooms through the Redis server at this URL
+//   REDIS_STAND_IN  share rooms through an in-process stand-in for Redis on
+//                   REDIS_STAND_IN_PORT; the first instance started runs it,
+//                   the others connect to it. For trying several instances
+//                   locally only.
+// With neither, rooms stay in this process.
+//
+// onFailure runs once Redis has stayed out of reach through every reconnect
+// attempt. Without Redis this instance can neither reach rooms nor deliver
+// to its clients, so by default it exits for whatever supervises it to
+// restart it; a host that runs no supervisor, like a serverless function,
+// passes its own.
+export async function createSignalingBackend(
+  env: NodeJS.ProcessEnv = process.env,
+  onFailure: (error: Error) => void = () => process.exit(1)
+): Promise<SignalingBackend> {
+  let url = env.REDIS_URL;
+
+  if (!url && env.REDIS_STAND_IN) {
+    const port = Number(env.REDIS_STAND_IN_PORT) || DEFAULT_STAND_IN_PORT;
+    url = `redis://127.0.0.1:${port}`;
+    try {
+      await startRespStandIn(port);
+    } catch (error) {
+      // Already started by another instance
+      if ((error as NodeJS.ErrnoException).code !== 'EADDRINUSE') throw error;
+    }
+  }
+
+  if (!url) {
+    return { store: storage, pubsub: new MemPubSub(), healthy: () => true };
+  }
+
+  const [commands, subscriber] = await Promise.all([RespClient.connect(url), RespClient.connect(url)]);
+  console.log(`[Redis] Sharing rooms through ${new URL(url).host}`);
+
+  let failed = false;
+  for (const client of [commands, subscriber]) {
+    client.onFailure(error => {
+      if (failed) return;
+      failed = true;
+      commands.close();
+      subscriber.close();
+      onFailure(error);
+    });
+  }
+  return {
+    store: new RedisRoomStore(commands),
+    pubsub: new RedisPubSub(commands, subscriber),
+    healthy: () => commands.ready && subscriber.ready
+  };
+}
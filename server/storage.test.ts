@@ -0,0 +1,135 @@
+import { test, type TestContext } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemStorage, EXPIRED_ROOM_RETENTION } from './storage';
+import { PAIRING_CODE_TTL } from './room-codes';
+
+// Date.now under the test's control, starting from the real time
+function clock(t: TestContext): { advance: (ms: number) => void } {
+  let now = Date.now();
+  t.mock.method(Date, 'now', () => now);
+  return { advance: ms => { now += ms; } };
+}
+
+test('hit counters count within a window that starts with the first hit', async (t) => {
+  const time = clock(t);
+  const storage = new MemStorage();
+
+  assert.equal(await storage.getHits('key'), 0);
+  assert.equal(await storage.addHit('key', 1000), 1);
+  time.advance(600);
+  assert.equal(await storage.addHit('key', 1000), 2);
+  assert.equal(await storage.getHits('key'), 2);
+  assert.equal(await storage.getHits('other'), 0);
+
+  // Later hits do not stretch the window
+  time.advance(400);
+  assert.equal(await storage.getHits('key'), 0);
+  assert.equal(await storage.addHit('key', 1000), 1);
+
+  storage.cleanupEmptyRooms();
+  assert.equal(await storage.getHits('key'), 1);
+  time.advance(1000);
+  storage.cleanupEmptyRooms();
+  assert.equal(await storage.getHits('key'), 0);
+});
+
+test('a pairing code finds its room until it expires', async (t) => {
+  const time = clock(t);
+  const storage = new MemStorage();
+  const room = await storage.createRoom('owner-token');
+
+  assert.equal(room.codeExpiresAt, Date.now() + PAIRING_CODE_TTL);
+  assert.equal((await storage.getRoomByCode(room.code!))?.id, room.id);
+
+  time.advance(PAIRING_CODE_TTL);
+  assert.equal(await storage.getRoomByCode(room.code!), undefined);
+  // The room itself lives on
+  assert.equal((await storage.getRoom(room.id))?.id, room.id);
+});
+
+test('a pairing code expires with a room shorter-lived than the code', async (t) => {
+  const time = clock(t);
+  const storage = new MemStorage();
+  const room = await storage.createRoom('owner-token', { ttlSeconds: 60 });
+
+  assert.equal(room.codeExpiresAt, room.expiresAt);
+  time.advance(60 * 1000);
+  assert.equal(await storage.getRoomByCode(room.code!), undefined);
+});
+
+test('a released pairing code is used up', async () => {
+  const storage = new MemStorage();
+  const room = await storage.createRoom('owner-token');
+  const code = room.code!;
+
+  await storage.releaseRoomCode(room.id);
+  assert.equal(await storage.getRoomByCode(code), undefined);
+  assert.equal((await storage.getRoom(room.id))?.code, null);
+  // Releasing again changes nothing
+  await storage.releaseRoomCode(room.id);
+  assert.equal((await storage.getRoom(room.id))?.code, null);
+});
+
+test('rooms hash the owner token and turn joins away once full', async () => {
+  const storage = new MemStorage();
+  const room = await storage.createRoom('owner-token', { capacity: 2 });
+  assert.notEqual(room.ownerTokenHash, 'owner-token');
+
+  assert.deepEqual(await storage.addClientToRoom(room.id, 'a', 'identity-a', 'resume-a'), []);
+  assert.deepEqual(await storage.addClientToRoom(room.id, 'b', 'identity-b', 'resume-b'), ['a']);
+  assert.equal(await storage.addClientToRoom(room.id, 'c', 'identity-c', 'resume-c'), null);
+  assert.equal(await storage.addClientToRoom('no-such-room', 'c', 'identity-c', 'resume-c'), null);
+
+  await storage.removeClientFromRoom(room.id, 'a');
+  assert.deepEqual(await storage.addClientToRoom(room.id, 'c', 'identity-c', 'resume-c'), ['b']);
+});
+
+test('a kicked identity stays banned from its room only', async () => {
+  const storage = new MemStorage();
+  const room = await storage.createRoom('owner-token');
+  const other = await storage.createRoom('owner-token');
+
+  await storage.banIdentity(room.id, 'identity');
+  assert.equal(await storage.isIdentityBanned(room.id, 'identity'), true);
+  assert.equal(await storage.isIdentityBanned(room.id, 'someone-else'), false);
+  assert.equal(await storage.isIdentityBanned(other.id, 'identity'), false);
+  // Bans are not part of what callers see of the room
+  assert.equal('bannedIdentities' in (await storage.getRoom(room.id))!, false);
+});
+
+test('an away client keeps its place only for its own session', async () => {
+  const storage = new MemStorage();
+  const room = await storage.createRoom('owner-token');
+  await storage.addClientToRoom(room.id, 'a', 'identity-a', 'resume-a');
+
+  assert.equal(await storage.setClientAway(room.id, 'a', 'stale-session', Date.now() + 1000), false);
+  assert.equal(await storage.setClientAway(room.id, 'a', 'a', Date.now() + 1000), true);
+  assert.equal(await storage.resumeClient(room.id, 'a', 'new-session'), true);
+  // The old session can neither mark it away nor give it up any more
+  assert.equal(await storage.setClientAway(room.id, 'a', 'a', Date.now() + 1000), false);
+  assert.equal(await storage.removeAwayClient(room.id, 'a', 'a'), false);
+
+  assert.equal(await storage.setClientAway(room.id, 'a', 'new-session', Date.now() + 1000), true);
+  assert.equal(await storage.removeAwayClient(room.id, 'a', 'new-session'), true);
+  assert.equal(await storage.isClientInRoom(room.id, 'a'), false);
+});
+
+test('empty rooms are removed some time after they expire', async (t) => {
+  const time = clock(t);
+  const storage = new MemStorage();
+  const empty = await storage.createRoom('owner-token', { ttlSeconds: 60 });
+  const occupied = await storage.createRoom('owner-token', { ttlSeconds: 60 });
+  await storage.addClientToRoom(occupied.id, 'a', 'identity-a', 'resume-a');
+
+  time.advance(60 * 1000 + EXPIRED_ROOM_RETENTION);
+  storage.cleanupEmptyRooms();
+  assert.equal((await storage.getRoom(empty.id))?.id, empty.id);
+
+  time.advance(1);
+  storage.cleanupEmptyRooms();
+  // cleanupEmptyRooms does not wait for the removals it starts
+  await new Promise(resolve => setImmediate(resolve));
+  assert.equal(await storage.getRoom(empty.id), undefined);
+  assert.equal((await storage.getRoom(occupied.id))?.id, occupied.id);
+  assert.equal(await storage.countRooms(), 1);
+});
@@ -1,43 +1,155 @@
-import { type User, type InsertUser } from "@shared/schema";
+import {
+  type User,
+  type InsertUser,
+  type SignalingMessage,
+  DEFAULT_ROOM_CAPACITY,
+  DEFAULT_ROOM_TTL_SECONDS
+} from "@shared/schema";
 import { randomUUID } from "crypto";
-import type { WebSocket } from "ws";
+import { generateRoomId, generatePairingCode, hashToken, PAIRING_CODE_TTL } from "./room-codes";
 
-// Room management for WebRTC signaling
+// Expired rooms linger this long (while empty) so joins and lookups can
+// report "expired" rather than "not found"
+export const EXPIRED_ROOM_RETENTION = 60 * 60 * 1000; // 1 hour
+
+export interface RoomOptions {
+  capacity?: number;
+  ttlSeconds?: number;
+}
+
+export interface RoomMember {
+  id: string;
+  // Hash of the key the client's browser joined with, for kick bans
+  identity: string;
+  // Hash of the token the client presents to resume its place
+  resumeTokenHash: string;
+  // The connection currently holding the place; a stale one can neither
+  // mark it away nor give it up
+  session: string;
+  // Set while the client's socket is gone; the place is kept until then
+  awayUntil: number | null;
+}
+
+// Room management for WebRTC signaling. Only state lives here; sockets stay
+// with the signaling instance that accepted them.
 export interface Room {
   id: string;
-  clients: Map<string, WebSocket>;
+  // Short code for joining without the link; null once used or expired
+  code: string | null;
+  codeExpiresAt: number;
+  ownerTokenHash: string;
+  capacity: number;
+  clients: RoomMember[];
+  // Client holding the owner token, while it is in the room
+  ownerId: string | null;
+  locked: boolean;
+  // Clients waiting for the owner to let them in
+  knocks: string[];
   createdAt: number;
+  expiresAt: number;
+}
+
+// Room state, shared by every signaling instance
+export interface IRoomStore {
+  // The owner token is hashed into the room; only the caller sees it
+  createRoom(ownerToken: string, options?: RoomOptions): Promise<Room>;
+  getRoom(roomId: string): Promise<Room | undefined>;
+  getRoomByCode(code: string): Promise<Room | undefined>;
+  releaseRoomCode(roomId: string): Promise<void>;
+  // The members the new client is to be introduced to, or null when the
+  // room is gone or full. Every pair of members is introduced exactly once,
+  // even when both join at the same time through different instances.
+  // The client's id doubles as its first session.
+  addClientToRoom(roomId: string, clientId: string, identity: string, resumeTokenHash: string): Promise<string[] | null>;
+  removeClientFromRoom(roomId: string, clientId: string): Promise<void>;
+  // Keeps an away client's place until the given time; false if another
+  // session has taken it over meanwhile
+  setClientAway(roomId: string, clientId: string, session: string, until: number): Promise<boolean>;
+  // Hands the client's place to a new session, away or not; false once the
+  // place is gone
+  resumeClient(roomId: string, clientId: string, session: string): Promise<boolean>;
+  // Gives up the place of a client still away in the given session
+  removeAwayClient(roomId: string, clientId: string, session: string): Promise<boolean>;
+  isClientInRoom(roomId: string, clientId: string): Promise<boolean>;
+  setRoomOwner(roomId: string, clientId: string | null): Promise<void>;
+  setRoomLocked(roomId: string, locked: boolean): Promise<void>;
+  addKnock(roomId: string, clientId: string, identity: string): Promise<void>;
+  // The knocking client's identity, if it was still waiting
+  removeKnock(roomId: string, clientId: string): Promise<string | undefined>;
+  // Identities of kicked clients, which may not knock again
+  banIdentity(roomId: string, identity: string): Promise<void>;
+  isIdentityBanned(roomId: string, identity: string): Promise<boolean>;
+  cleanupRoom(roomId: string): Promise<void>;
+  // Rooms that still exist, in use or not
+  countRooms(): Promise<number>;
+  // Rate limit counters, shared by every instance: counts one more hit on
+  // the key and returns the hits so far in its window, which starts with
+  // the first one
+  addHit(key: string, windowMs: number): Promise<number>;
+  getHits(key: string): Promise<number>;
+}
+
+// What one client is sent, and whether its socket is closed afterwards
+export interface ClientDelivery {
+  message?: SignalingMessage;
+  close?: boolean;
+  // The client resumed on another socket: this one closes without leaving
+  // the room
+  takeover?: boolean;
+}
+
+export type DeliveryHandler = (delivery: ClientDelivery) => void;
+
+// Most deliveries held for an away client; later ones are dropped
+export const MAX_HELD_DELIVERIES = 1000;
+
+// Delivers messages to clients by id, whichever signaling instance holds
+// their socket
+export interface IRoomPubSub {
+  // Called for everything published to the client until unsubscribed,
+  // starting with whatever was held for it. A later subscription for the
+  // same client replaces this one.
+  subscribe(clientId: string, handler: DeliveryHandler): Promise<void>;
+  // Only ends the handler's own subscription, not one that replaced it
+  unsubscribe(clientId: string, handler: DeliveryHandler): Promise<void>;
+  publish(clientId: string, delivery: ClientDelivery): Promise<void>;
+  // Keeps what is published to the client, while it has no subscription, for
+  // its next one to pick up
+  hold(clientId: string, ttlMs: number): Promise<void>;
+  release(clientId: string): Promise<void>;
 }
 
 // Modified storage interface for P2P file sharing
-export interface IStorage {
+export interface IStorage extends IRoomStore {
   // User methods (legacy - not used in P2P app)
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  
-  // Room management methods
-  createRoom(roomId: string): Room;
-  getRoom(roomId: string): Room | undefined;
-  addClientToRoom(roomId: string, clientId: string, ws: WebSocket): boolean;
-  removeClientFromRoom(roomId: string, clientId: string): void;
-  getOtherClientInRoom(roomId: string, clientId: string): WebSocket | undefined;
-  cleanupRoom(roomId: string): void;
-  getAllRooms(): Map<string, Room>;
 }
 
+interface MemRoom extends Omit<Room, 'clients' | 'knocks'> {
+  clients: Map<string, RoomMember>;
+  knocks: Map<string, string>; // client id -> identity
+  bannedIdentities: Set<string>;
+}
+
+// Rooms in this process only; a single signaling instance
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
-  private rooms: Map<string, Room>;
+  private rooms: Map<string, MemRoom>;
+  // Pairing code -> room id, for codes still in use
+  private roomCodes: Map<string, string>;
+  private counters: Map<string, { hits: number; resetAt: number }> = new Map();
 
   constructor() {
     this.users = new Map();
     this.rooms = new Map();
-    
-    // Periodic cleanup of empty rooms (every 5 minutes)
+    this.roomCodes = new Map();
+
+    // Periodic cleanup of empty rooms and expired codes (every 5 minutes)
     setInterval(() => {
       this.cleanupEmptyRooms();
-    }, 5 * 60 * 1000);
+    }, 5 * 60 * 1000).unref();
   }
 
   // Legacy user methods
@@ -59,94 +171,264 @@ export class MemStorage implements IStorage {
   }
 
   // Room management methods
-  createRoom(roomId: string): Room {
-    if (this.rooms.has(roomId)) {
-      return this.rooms.get(roomId)!;
+  async createRoom(ownerToken: string, options: RoomOptions = {}): Promise<Room> {
+    let roomId = generateRoomId();
+    while (this.rooms.has(roomId)) {
+      roomId = generateRoomId();
+    }
+
+    // The code space is small, so skip codes other rooms still hold
+    let code = generatePairingCode();
+    while (this.findRoomByCode(code)) {
+      code = generatePairingCode();
     }
-    
-    const room: Room = {
+
+    const now = Date.now();
+    const expiresAt = now + (options.ttlSeconds ?? DEFAULT_ROOM_TTL_SECONDS) * 1000;
+    const room: MemRoom = {
       id: roomId,
+      code,
+      codeExpiresAt: Math.min(now + PAIRING_CODE_TTL, expiresAt),
+      ownerTokenHash: hashToken(ownerToken),
+      capacity: options.capacity ?? DEFAULT_ROOM_CAPACITY,
       clients: new Map(),
-      createdAt: Date.now()
+      ownerId: null,
+      locked: false,
+      knocks: new Map(),
+      bannedIdentities: new Set(),
+      createdAt: now,
+      expiresAt
     };
-    
+
     this.rooms.set(roomId, room);
+    this.roomCodes.set(code, roomId);
     console.log(`[Room] Created room: ${roomId}`);
+    return this.snapshot(room);
+  }
+
+  // A copy, so callers see the room as it was, as they would from Redis
+  private snapshot(room: MemRoom): Room {
+    const { bannedIdentities, ...fields } = room;
+    return {
+      ...fields,
+      clients: Array.from(room.clients.values()).map(member => ({ ...member })),
+      knocks: Array.from(room.knocks.keys())
+    };
+  }
+
+  async getRoom(roomId: string): Promise<Room | undefined> {
+    const room = this.rooms.get(roomId);
+    return room && this.snapshot(room);
+  }
+
+  private findRoomByCode(code: string): MemRoom | undefined {
+    const roomId = this.roomCodes.get(code);
+    if (!roomId) return undefined;
+
+    const room = this.rooms.get(roomId);
+    if (!room || room.code !== code || room.codeExpiresAt <= Date.now()) {
+      this.roomCodes.delete(code);
+      return undefined;
+    }
     return room;
   }
 
-  getRoom(roomId: string): Room | undefined {
-    return this.rooms.get(roomId);
+  async getRoomByCode(code: string): Promise<Room | undefined> {
+    const room = this.findRoomByCode(code);
+    return room && this.snapshot(room);
+  }
+
+  // Pairing codes are single use: released once the room is full
+  async releaseRoomCode(roomId: string): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (!room || !room.code) return;
+
+    this.roomCodes.delete(room.code);
+    room.code = null;
+    console.log(`[Room] Released pairing code of room ${roomId}`);
   }
 
-  addClientToRoom(roomId: string, clientId: string, ws: WebSocket): boolean {
-    const room = this.getRoom(roomId);
+  async addClientToRoom(roomId: string, clientId: string, identity: string, resumeTokenHash: string): Promise<string[] | null> {
+    const room = this.rooms.get(roomId);
     if (!room) {
       console.error(`[Room] Room not found: ${roomId}`);
-      return false;
+      return null;
     }
 
-    // Limit to 2 clients per room (P2P connection)
-    if (room.clients.size >= 2) {
+    if (room.clients.size >= room.capacity) {
       console.warn(`[Room] Room ${roomId} is full`);
-      return false;
+      return null;
     }
 
-    room.clients.set(clientId, ws);
-    console.log(`[Room] Client ${clientId} joined room ${roomId} (${room.clients.size}/2)`);
-    return true;
+    // Joins happen one at a time here, so everyone already in is new to it
+    const peers = Array.from(room.clients.keys());
+    room.clients.set(clientId, { id: clientId, identity, resumeTokenHash, session: clientId, awayUntil: null });
+    console.log(`[Room] Client ${clientId} joined room ${roomId} (${room.clients.size}/${room.capacity})`);
+    return peers;
   }
 
-  removeClientFromRoom(roomId: string, clientId: string): void {
-    const room = this.getRoom(roomId);
+  async removeClientFromRoom(roomId: string, clientId: string): Promise<void> {
+    const room = this.rooms.get(roomId);
     if (!room) return;
 
     room.clients.delete(clientId);
-    console.log(`[Room] Client ${clientId} left room ${roomId} (${room.clients.size}/2)`);
+    console.log(`[Room] Client ${clientId} left room ${roomId} (${room.clients.size}/${room.capacity})`);
 
-    // Only remove the room from the map if completely empty
+    // Empty rooms are kept until they expire, so a peer that reloads the
+    // page can join its room again.
     // Don't close sockets - remaining peer should stay connected
-    if (room.clients.size === 0) {
-      this.rooms.delete(roomId);
-      console.log(`[Room] Removed empty room: ${roomId}`);
-    }
   }
 
-  getOtherClientInRoom(roomId: string, clientId: string): WebSocket | undefined {
-    const room = this.getRoom(roomId);
-    if (!room) return undefined;
+  async setClientAway(roomId: string, clientId: string, session: string, until: number): Promise<boolean> {
+    const member = this.rooms.get(roomId)?.clients.get(clientId);
+    if (!member || member.session !== session) return false;
 
-    // Find the other client in the room (not the sender)
-    for (const [id, ws] of room.clients.entries()) {
-      if (id !== clientId) {
-        return ws;
-      }
+    member.awayUntil = until;
+    console.log(`[Room] Client ${clientId} away from room ${roomId}`);
+    return true;
+  }
+
+  async resumeClient(roomId: string, clientId: string, session: string): Promise<boolean> {
+    const member = this.rooms.get(roomId)?.clients.get(clientId);
+    if (!member) return false;
+
+    member.session = session;
+    member.awayUntil = null;
+    console.log(`[Room] Client ${clientId} resumed in room ${roomId}`);
+    return true;
+  }
+
+  async removeAwayClient(roomId: string, clientId: string, session: string): Promise<boolean> {
+    const member = this.rooms.get(roomId)?.clients.get(clientId);
+    if (!member || member.session !== session || member.awayUntil === null) return false;
+
+    await this.removeClientFromRoom(roomId, clientId);
+    return true;
+  }
+
+  async isClientInRoom(roomId: string, clientId: string): Promise<boolean> {
+    return this.rooms.get(roomId)?.clients.has(clientId) ?? false;
+  }
+
+  async setRoomOwner(roomId: string, clientId: string | null): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (room) {
+      room.ownerId = clientId;
     }
+  }
+
+  async setRoomLocked(roomId: string, locked: boolean): Promise<void> {
+    const room = this.rooms.get(roomId);
+    if (!room) return;
+
+    room.locked = locked;
+    console.log(`[Room] Room ${roomId} ${locked ? 'locked' : 'unlocked'}`);
+  }
+
+  async addKnock(roomId: string, clientId: string, identity: string): Promise<void> {
+    this.rooms.get(roomId)?.knocks.set(clientId, identity);
+  }
 
-    return undefined;
+  async removeKnock(roomId: string, clientId: string): Promise<string | undefined> {
+    const room = this.rooms.get(roomId);
+    const identity = room?.knocks.get(clientId);
+    room?.knocks.delete(clientId);
+    return identity;
   }
 
-  cleanupRoom(roomId: string): void {
+  async banIdentity(roomId: string, identity: string): Promise<void> {
+    this.rooms.get(roomId)?.bannedIdentities.add(identity);
+  }
+
+  async isIdentityBanned(roomId: string, identity: string): Promise<boolean> {
+    return this.rooms.get(roomId)?.bannedIdentities.has(identity) ?? false;
+  }
+
+  async cleanupRoom(roomId: string): Promise<void> {
     // Just remove the room from the map
     // Don't forcibly close client connections - they may still be active
+    await this.releaseRoomCode(roomId);
     this.rooms.delete(roomId);
     console.log(`[Room] Cleaned up room: ${roomId}`);
   }
 
+  async countRooms(): Promise<number> {
+    return this.rooms.size;
+  }
+
+  async addHit(key: string, windowMs: number): Promise<number> {
+    const now = Date.now();
+    let counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= now) {
+      counter = { hits: 0, resetAt: now + windowMs };
+      this.counters.set(key, counter);
+    }
+    return ++counter.hits;
+  }
+
+  async getHits(key: string): Promise<number> {
+    const counter = this.counters.get(key);
+    return counter && counter.resetAt > Date.now() ? counter.hits : 0;
+  }
+
   cleanupEmptyRooms(): void {
     const now = Date.now();
-    const maxAge = 60 * 60 * 1000; // 1 hour
 
-    for (const [roomId, room] of this.rooms.entries()) {
-      // Remove empty rooms older than 1 hour
-      if (room.clients.size === 0 && (now - room.createdAt) > maxAge) {
+    for (const [key, counter] of Array.from(this.counters.entries())) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+
+    for (const [roomId, room] of Array.from(this.rooms.entries())) {
+      // Remove empty rooms some time after they expire
+      if (room.clients.size === 0 && now - room.expiresAt > EXPIRED_ROOM_RETENTION) {
         this.cleanupRoom(roomId);
+      } else if (room.code && room.codeExpiresAt <= now) {
+        this.releaseRoomCode(roomId);
       }
     }
   }
+}
+
+// Delivery within this process: every client is connected right here
+export class MemPubSub implements IRoomPubSub {
+  private handlers: Map<string, DeliveryHandler> = new Map();
+  private held: Map<string, { deliveries: ClientDelivery[]; expiresAt: number }> = new Map();
+
+  async subscribe(clientId: string, handler: DeliveryHandler): Promise<void> {
+    this.handlers.set(clientId, handler);
+
+    const held = this.held.get(clientId);
+    this.held.delete(clientId);
+    if (held && held.expiresAt > Date.now()) {
+      held.deliveries.forEach(handler);
+    }
+  }
+
+  async unsubscribe(clientId: string, handler: DeliveryHandler): Promise<void> {
+    if (this.handlers.get(clientId) === handler) {
+      this.handlers.delete(clientId);
+    }
+  }
+
+  async publish(clientId: string, delivery: ClientDelivery): Promise<void> {
+    const handler = this.handlers.get(clientId);
+    if (handler) {
+      handler(delivery);
+      return;
+    }
+
+    const held = this.held.get(clientId);
+    if (held && held.expiresAt > Date.now() && held.deliveries.length < MAX_HELD_DELIVERIES) {
+      held.deliveries.push(delivery);
+    }
+  }
+
+  async hold(clientId: string, ttlMs: number): Promise<void> {
+    this.held.set(clientId, { deliveries: [], expiresAt: Date.now() + ttlMs });
+  }
 
-  getAllRooms(): Map<string, Room> {
-    return this.rooms;
+  async release(clientId: string): Promise<void> {
+    this.held.delete(clientId);
   }
 }
 
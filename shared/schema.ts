@@ -13,17 +13,21 @@ export interface InsertUser {
 }
 
 // Environment-agnostic WebRTC types (serializable across Node and browser)
-export interface SessionDescription {
-  type: 'offer' | 'answer' | 'pranswer' | 'rollback';
-  sdp: string;
-}
+export const sessionDescriptionSchema = z.object({
+  type: z.enum(['offer', 'answer', 'pranswer', 'rollback']),
+  sdp: z.string()
+});
 
-export interface IceCandidate {
-  candidate: string;
-  sdpMid: string | null;
-  sdpMLineIndex: number | null;
-  usernameFragment: string | null;
-}
+export type SessionDescription = z.infer<typeof sessionDescriptionSchema>;
+
+export const iceCandidateSchema = z.object({
+  candidate: z.string(),
+  sdpMid: z.string().nullable(),
+  sdpMLineIndex: z.number().int().nonnegative().nullable(),
+  usernameFragment: z.string().nullable()
+});
+
+export type IceCandidate = z.infer<typeof iceCandidateSchema>;
 
 export interface IceServer {
   urls: string | string[];
@@ -31,45 +35,319 @@ export interface IceServer {
   credential?: string;
 }
 
+// Room and peer ids are allocated by the server; the bound only keeps
+// garbage out
+const idSchema = z.string().min(1).max(128);
+const hexSchema = z.string().regex(/^[0-9a-f]*$/i).max(1024);
+
+// Signaling messages one peer sends the other through the server
+export const peerSignalSchema = z.discriminatedUnion('type', [
+  // iceRestart: renegotiates ICE on the existing connection; any other offer
+  // while one exists replaces it
+  z.object({ type: z.literal('offer'), offer: sessionDescriptionSchema, iceRestart: z.literal(true).optional() }),
+  z.object({ type: z.literal('answer'), answer: sessionDescriptionSchema }),
+  z.object({ type: z.literal('ice-candidate'), candidate: iceCandidateSchema }),
+  // Room password check (SPAKE2), run before any offer when the room has a
+  // password: the initiator sends its share, the responder answers with its
+  // share and key confirmation, the initiator confirms back. Elements and
+  // confirmations are hex. Each share carries the sender's DTLS certificate
+  // fingerprints ("sha-256 AB:CD:..."), which the confirmations vouch for.
+  z.object({
+    type: z.literal('pake-share'),
+    share: hexSchema,
+    fingerprints: z.array(z.string().max(256)).min(1).max(4),
+    confirmation: hexSchema.optional()
+  }),
+  z.object({ type: z.literal('pake-confirm'), confirmation: hexSchema }),
+  z.object({ type: z.literal('pake-failed'), attemptsLeft: z.number().int().nonnegative().optional() }),
+  // The responder asks for another run, after entering a different password
+  z.object({ type: z.literal('pake-retry') })
+]);
+
+export type PeerSignal = z.infer<typeof peerSignalSchema>;
+
+// With a link key the peers seal every PeerSignal (base64 IV and AES-GCM
+// ciphertext), so the server relays SDP and ICE candidates, and the IP
+// addresses in them, without being able to read them. 'kind' is all it
+// learns, for routing and logging. The kind, route and sequence number are
+// authenticated with the ciphertext, so the server cannot redirect a signal
+// to another peer, reflect it to its sender or replay it.
+export const sealedSignalSchema = z.object({
+  type: z.literal('sealed-signal'),
+  kind: z.enum(['offer', 'answer', 'ice-candidate', 'pake-share', 'pake-confirm', 'pake-failed', 'pake-retry']),
+  seq: z.number().int().nonnegative(),
+  iv: z.string().max(64),
+  data: z.string()
+});
+
+export type SealedSignal = z.infer<typeof sealedSignalSchema>;
+
+// Every client in a room has a peer id, assigned by the server. Signals
+// between peers name their target in 'to'; the server routes them there and
+// sets 'from' to the sender's id, whatever the sender put in it.
+export const signalRouteSchema = z.object({
+  from: idSchema.optional(),
+  to: idSchema.optional()
+});
+
+export type SignalRoute = z.infer<typeof signalRouteSchema>;
+
+// Machine-readable reasons for an error, for the UI to react to
+export const signalingErrorCodeSchema = z.enum([
+  'ROOM_NOT_FOUND',
+  'ROOM_EXPIRED',
+  'ROOM_FULL',
+  'ROOM_LOCKED',
+  'KNOCK_REJECTED',
+  'KICKED',
+  'NOT_OWNER',
+  'NOT_IN_ROOM', // sent something that needs a room before joining one
+  'PEER_NOT_FOUND', // addressed a peer that is not in the room
+  'RATE_LIMITED', // sent too much too fast; the message was dropped
+  'BAD_MESSAGE', // not a message this protocol knows; it was dropped
+  'SERVER_ERROR',
+  'PASSWORD_REQUIRED',
+  'WRONG_PASSWORD',
+  // We tried too many wrong passwords; the server relays no more of our checks
+  'PASSWORD_LOCKED',
+  // The server did not issue the join's client key, or it has expired
+  'UNKNOWN_CLIENT_KEY'
+]);
+
+export type SignalingErrorCode = z.infer<typeof signalingErrorCodeSchema>;
+
+// Between the room owner and the server. Only the owner's socket may send
+// 'knock-response', 'lock-room' and 'kick'.
+const knockResponseSchema = z.object({ type: z.literal('knock-response'), peerId: idSchema, admit: z.boolean() });
+// A locked room turns every new join away
+const lockRoomSchema = z.object({ type: z.literal('lock-room'), locked: z.boolean() });
+// Closes the peer's socket and keeps its address out of the room
+const kickSchema = z.object({ type: z.literal('kick'), peerId: idSchema });
+
+export const roomModerationMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('knock'), peerId: idSchema }), // to the owner: someone asks to join
+  z.object({ type: z.literal('knock-withdrawn'), peerId: idSchema }), // they gave up or were turned away
+  knockResponseSchema,
+  lockRoomSchema,
+  z.object({ type: z.literal('room-locked'), locked: z.boolean() }), // to everyone in the room
+  kickSchema
+]);
+
+export type RoomModerationMessage = z.infer<typeof roomModerationMessageSchema>;
+
+// The room's owner token makes the client its owner, who is let straight
+// in; everyone else knocks and waits for the owner to admit them. A client
+// whose socket dropped presents its id and resume token to take its place
+// back, which works until the grace period runs out; after that it joins
+// like anyone else. The client key is one the server issued to the browser
+// (POST /api/client-keys), which keeps it; a kicked client is kept out by it.
+const joinSchema = z.object({
+  type: z.literal('join'),
+  roomId: idSchema,
+  clientKey: z.string().min(16).max(256),
+  ownerToken: z.string().max(256).optional(),
+  resume: z.object({ peerId: idSchema, token: z.string().max(256) }).optional()
+});
+
+// Keeps the socket busy enough that proxies do not drop it while idle; the
+// server answers each 'ping' with a 'pong'
+const pingSchema = z.object({ type: z.literal('ping') });
+
+// What a client may send the server; anything else is answered with
+// BAD_MESSAGE
+export const clientMessageSchema = z.union([
+  joinSchema,
+  pingSchema,
+  peerSignalSchema.and(signalRouteSchema),
+  sealedSignalSchema.and(signalRouteSchema),
+  knockResponseSchema,
+  lockRoomSchema,
+  kickSchema
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+
 // WebRTC signaling message types (sent over WebSocket)
-export type SignalingMessage = 
-  | { type: 'join', roomId: string }
-  | { type: 'offer', offer: SessionDescription }
-  | { type: 'answer', answer: SessionDescription }
-  | { type: 'ice-candidate', candidate: IceCandidate }
-  | { type: 'peer-joined' }
-  | { type: 'peer-left' }
-  | { type: 'error', message: string };
+export const signalingMessageSchema = z.union([
+  clientMessageSchema,
+  z.object({ type: z.literal('pong') }),
+  z.object({ type: z.literal('knocking') }),
+  // Reply to 'join' (or to being admitted): our own id and the peers already
+  // in the room, who will each start a connection to us, and the token to
+  // resume with should the socket drop
+  z.object({
+    type: z.literal('joined'),
+    peerId: idSchema,
+    peers: z.array(idSchema),
+    owner: z.boolean(),
+    locked: z.boolean(),
+    resumeToken: z.string()
+  }),
+  // Reply to a 'join' that resumed: the place is ours again, and whatever
+  // was sent to us meanwhile follows
+  z.object({ type: z.literal('resumed'), peerId: idSchema }),
+  z.object({ type: z.literal('peer-joined'), peerId: idSchema }),
+  z.object({ type: z.literal('peer-left'), peerId: idSchema }),
+  roomModerationMessageSchema,
+  z.object({ type: z.literal('error'), message: z.string(), code: signalingErrorCodeSchema })
+]);
+
+export type SignalingMessage = z.infer<typeof signalingMessageSchema>;
+
+// Room lifecycle over REST (/api/rooms). The server allocates both
+// identifiers; clients can only join rooms that exist.
+export const DEFAULT_ROOM_CAPACITY = 2;
+// Every peer connects to every other one, so connections grow with the square
+export const MAX_ROOM_CAPACITY = 8;
+export const DEFAULT_ROOM_TTL_SECONDS = 24 * 60 * 60;
+export const MAX_ROOM_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export const createRoomRequestSchema = z.object({
+  capacity: z.number().int().min(2).max(MAX_ROOM_CAPACITY).optional(),
+  // Once expired a room can no longer be joined; peers already in it stay
+  expiresInSeconds: z.number().int().min(60).max(MAX_ROOM_TTL_SECONDS).optional()
+});
+
+export type CreateRoomRequest = z.infer<typeof createRoomRequestSchema>;
+
+export interface CreatedRoom {
+  roomId: string; // high-entropy, used in share links
+  code: string; // short pairing code such as "orange-tiger-42"
+  codeExpiresAt: number;
+  // Returned only here; sent as "Authorization: Bearer <token>" to manage
+  // the room. The server keeps only its hash.
+  ownerToken: string;
+  capacity: number;
+  expiresAt: number;
+}
+
+// GET /api/rooms/:roomId
+export interface RoomInfo {
+  exists: true;
+  roomId: string;
+  occupancy: number;
+  capacity: number;
+  full: boolean;
+  locked: boolean;
+  expired: boolean;
+  createdAt: number;
+  ageSeconds: number;
+  expiresAt: number;
+}
+
+const PAIRING_CODE_PATTERN = /^[a-z]+-[a-z]+-\d{2}$/;
+
+// Accepts the ways people type a code back: any case, spaces for hyphens.
+// Null when the input cannot be a pairing code.
+export function normalizePairingCode(input: string): string | null {
+  const code = input.trim().toLowerCase().replace(/[\s_]+/g, '-');
+  return PAIRING_CODE_PATTERN.test(code) ? code : null;
+}
 
 // Connection states
 export type ConnectionState = 
   | 'disconnected'
+  | 'knocking' // waiting for the room owner to let us in
   | 'connecting' 
   | 'connected'
+  | 'reconnecting' // lost the connection, trying to get it back
   | 'peer-left'
+  // Why the server ended (or refused) our place in the room
+  | 'room-unavailable' // no such room, or it expired or was deleted
+  | 'room-full'
+  | 'turned-away' // locked, not let in, or kicked
   | 'error';
 
+// Compression formats a peer can decode (names as used by CompressionStream)
+export const compressionCodecSchema = z.enum(['gzip', 'deflate-raw']);
+
+export type CompressionCodec = z.infer<typeof compressionCodecSchema>;
+
+// The codecs a peer's 'capabilities' lists that this build knows; anything
+// else, from a newer or misbehaving peer, is left out
+export function knownCodecs(compression: unknown): CompressionCodec[] {
+  if (!Array.isArray(compression)) return [];
+  return compression.filter((codec): codec is CompressionCodec => compressionCodecSchema.safeParse(codec).success);
+}
+
 // File metadata sent as JSON over DataChannel
 export interface FileMetadata {
   id: string;
   name: string;
   size: number;
   type: string;
-  totalChunks: number;
+  streamId: number; // identifies this file's chunk frames, unique per sender
+  relativePath?: string; // "folder/sub/file.txt" when sent as part of a folder
+  lastModified?: number;
+  isDirectory?: boolean; // an empty directory; carries no chunks
+  compression?: CompressionCodec; // every chunk payload is compressed on its own
 }
 
 // DataChannel control messages (sent as JSON strings)
+// Each peer sends 'capabilities' when the DataChannel opens; a sender only
+// compresses a file with a codec the receiver listed.
+// A new file starts 'pending' on both sides until the receiver answers its
+// 'file-metadata' with 'transfer-accept' or 'transfer-decline'.
+// After the DataChannel is re-established the sender announces each interrupted
+// transfer with 'transfer-resync' and the receiver answers with 'chunk-ack',
+// where chunkIndex is the number of chunks it already holds (the next one it needs)
+// The receiver also reports with 'chunks-written' how many chunks, counted
+// from the first, it has written; a sender keeps at most receiveWindow bytes
+// of a file sent past that point, so a slow disk or a stalled download slows
+// the sender instead of piling chunks up in the receiver's memory.
+// Chunk sizes adapt during a transfer, so the chunk count is only known once
+// the sender has read the whole file and is sent with 'transfer-complete'.
+// The receiver answers it with 'transfer-verified' once the file matched its
+// hash and was written out; until then the sender keeps the file, and
+// resyncs it like any other if the DataChannel drops.
 export type FileControlMessage = 
+  | { type: 'capabilities', compression: CompressionCodec[] }
   | { type: 'file-metadata', metadata: FileMetadata }
+  | { type: 'transfer-accept', fileId: string }
+  | { type: 'transfer-decline', fileId: string }
+  | { type: 'transfer-resync', metadata: FileMetadata }
   | { type: 'chunk-ack', fileId: string, chunkIndex: number }
-  | { type: 'transfer-complete', fileId: string }
+  | { type: 'chunks-written', fileId: string, chunkIndex: number }
+  | { type: 'transfer-complete', fileId: string, fileHash: string, totalChunks: number }
+  | { type: 'transfer-verified', fileId: string }
+  | { type: 'transfer-error', fileId: string, error: string }
   | { type: 'transfer-cancel', fileId: string }
   | { type: 'transfer-pause', fileId: string }
   | { type: 'transfer-resume', fileId: string };
 
-// Note: File chunks are sent as raw ArrayBuffer (not wrapped in JSON)
+// Note: File chunks are sent as binary frames (not wrapped in JSON)
 // Format: First send FileControlMessage with type 'file-metadata' as JSON string
-// Then send each chunk as raw ArrayBuffer with chunk index tracked separately
+// Then send each chunk as a frame: [streamId: uint32][chunkIndex: uint32][offset: uint64][sha256: 32 bytes][payload]
+// Integer fields are big-endian, so a receiver can place any chunk by index
+// and offset no matter how many files are in flight, which DataChannel a
+// frame took, in which order frames arrive or how large each chunk is.
+// The SHA-256 covers the uncompressed payload, so the receiver verifies each
+// chunk on arrival after undoing the file's compression, if any.
+export const CHUNK_ROUTING_SIZE = 16; // streamId, chunkIndex and offset
+export const CHUNK_HASH_SIZE = 32;
+export const CHUNK_HEADER_SIZE = CHUNK_ROUTING_SIZE + CHUNK_HASH_SIZE;
+
+export interface ChunkFrame {
+  streamId: number;
+  chunkIndex: number;
+  offset: number; // byte position of the payload within the file
+  hash: ArrayBuffer;
+  data: ArrayBuffer;
+}
+
+// With a link key (see client/src/lib/link-encryption.ts) every DataChannel
+// message is sealed with AES-GCM under a fresh random 96-bit IV:
+// - control messages travel as a JSON 'sealed' envelope holding a sequence
+//   number and the base64 IV and ciphertext of the serialized message
+// - chunk frames keep their routing fields in the clear, authenticated as
+//   additional data, and seal the rest:
+//   [streamId: uint32][chunkIndex: uint32][offset: uint64][iv: 12 bytes][ciphertext of sha256 + payload, with tag]
+export interface SealedControlMessage {
+  type: 'sealed';
+  seq: number;
+  iv: string;
+  data: string;
+}
 
 // Transfer status
 export type TransferStatus = 
@@ -78,6 +356,7 @@ export type TransferStatus =
   | 'paused' 
   | 'completed' 
   | 'cancelled' 
+  | 'declined' // the receiver turned the file down
   | 'error';
 
 // Base transfer info (shared between sender and receiver)
@@ -92,19 +371,39 @@ export interface TransferInfo {
   startTime: number;
   lastUpdateTime: number;
   error?: string;
+  fileHash?: string; // hex SHA-256, set once the file is sent or verified
+  peerId?: string; // who it is sent to or received from
 }
 
 // Sender-side transfer (has access to File object)
 export interface SendingTransfer extends TransferInfo {
   direction: 'sending';
   currentChunkIndex: number;
+  chunkHashes: ArrayBuffer[]; // SHA-256 of each chunk sent, by index
+  // End offset of each chunk sent, by index. Chunks resent after a resync
+  // keep their original boundaries so they line up with what the receiver holds.
+  chunkEnds: number[];
+  confirmedChunks: number; // chunks the receiver reported written, from the first
 }
 
-// Receiver-side transfer (assembles chunks into blob)
+// Where a receiver writes incoming chunks
+export type ReceiveSinkKind =
+  | 'file-system' // a directory picked through the File System Access API
+  | 'download' // a streamed browser download via service worker
+  | 'memory'; // an in-memory Blob
+
+// Receiver-side transfer (chunks are written to a sink as they arrive)
 export interface ReceivingTransfer extends TransferInfo {
   direction: 'receiving';
-  receivedChunks: ArrayBuffer[];
-  expectedChunks: number;
+  chunkHashes: ArrayBuffer[]; // SHA-256 of each verified chunk, by index
+  // Byte range of each verified chunk, by index. Neighbouring chunks must
+  // meet exactly, so the chunks tile the file without gaps or overlaps.
+  chunkStarts: number[];
+  chunkEnds: number[];
+  writtenChunks: number; // chunks 0..writtenChunks-1 are all written
+  reportedChunks: number; // how far the sender was last told they are
+  expectedChunks?: number; // known once 'transfer-complete' arrives
+  sink?: ReceiveSinkKind;
 }
 
 // Union type for all transfers
@@ -113,8 +412,15 @@ export type FileTransfer = SendingTransfer | ReceivingTransfer;
 // Configuration
 export interface P2PConfig {
   iceServers: IceServer[];
-  chunkSize: number; // bytes per chunk (16KB - 64KB recommended)
-  maxBufferedAmount: number; // backpressure threshold
+  chunkSize: number; // initial bytes per chunk, adapted to measured throughput
+  minChunkSize: number;
+  maxChunkSize: number; // also capped by the SCTP max-message-size from the SDP
+  maxBufferedAmount: number; // backpressure threshold, per DataChannel
+  bufferedAmountLowThreshold: number; // sending resumes once a channel drains below this
+  dataChannelCount: number; // DataChannels chunks are striped across (1 = control channel only)
+  maxConcurrentSends: number; // files whose chunks are interleaved at once
+  receiveWindow: number; // bytes of a file sent past what the receiver has written
+  maxInMemoryReceiveSize: number; // larger files stream to disk when possible
 }
 
 export const DEFAULT_P2P_CONFIG: P2PConfig = {
@@ -123,7 +429,14 @@ export const DEFAULT_P2P_CONFIG: P2PConfig = {
     { urls: 'stun:stun1.l.google.com:19302' }
   ],
   chunkSize: 64 * 1024, // 64KB chunks
-  maxBufferedAmount: 256 * 1024 // 256KB buffer threshold
+  minChunkSize: 16 * 1024,
+  maxChunkSize: 256 * 1024,
+  maxBufferedAmount: 1024 * 1024, // 1MB buffer threshold
+  bufferedAmountLowThreshold: 256 * 1024,
+  dataChannelCount: 4,
+  maxConcurrentSends: 3,
+  receiveWindow: 8 * 1024 * 1024, // 8MB
+  maxInMemoryReceiveSize: 100 * 1024 * 1024 // 100MB
 };
 
 // Helper to serialize control messages for DataChannel
@@ -136,6 +449,41 @@ export function deserializeControlMessage(data: string): FileControlMessage {
   return JSON.parse(data) as FileControlMessage;
 }
 
+// Helper to wrap a chunk payload in a frame for the DataChannel
+export function encodeChunkFrame(
+  streamId: number,
+  chunkIndex: number,
+  offset: number,
+  hash: ArrayBuffer,
+  data: ArrayBuffer
+): ArrayBuffer {
+  const frame = new Uint8Array(CHUNK_HEADER_SIZE + data.byteLength);
+  const header = new DataView(frame.buffer);
+  header.setUint32(0, streamId);
+  header.setUint32(4, chunkIndex);
+  header.setUint32(8, Math.floor(offset / 0x100000000));
+  header.setUint32(12, offset % 0x100000000);
+  frame.set(new Uint8Array(hash, 0, CHUNK_HASH_SIZE), CHUNK_ROUTING_SIZE);
+  frame.set(new Uint8Array(data), CHUNK_HEADER_SIZE);
+  return frame.buffer;
+}
+
+// Helper to unwrap a chunk frame received from the DataChannel
+export function decodeChunkFrame(frame: ArrayBuffer): ChunkFrame {
+  if (frame.byteLength < CHUNK_HEADER_SIZE) {
+    throw new Error('Chunk frame is shorter than its header');
+  }
+
+  const header = new DataView(frame, 0, CHUNK_HEADER_SIZE);
+  return {
+    streamId: header.getUint32(0),
+    chunkIndex: header.getUint32(4),
+    offset: header.getUint32(8) * 0x100000000 + header.getUint32(12),
+    hash: frame.slice(CHUNK_ROUTING_SIZE, CHUNK_HEADER_SIZE),
+    data: frame.slice(CHUNK_HEADER_SIZE)
+  };
+}
+
 // Helper to check if DataChannel message is control message or chunk
 export function isControlMessage(data: unknown): data is string {
   return typeof data === 'string';